@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+/**
+ * Inspect and replay renders that exhausted their attempts (the `render-dead-letter` queue).
+ * Fix the root cause first, optionally correct the payload, then replay: the step or project is
+ * put back to `processing` and the job is enqueued on its original queue with the same retry options.
+ *
+ * Usage (from render-worker, with the worker's .env):
+ *   npm run dead-letter -- list [--queue <queue>] [--code <ERROR_CODE>] [--limit 50]
+ *   npm run dead-letter -- inspect <id>
+ *   npm run dead-letter -- edit <id> --set assets.music=null --set options.preset=fast
+ *   npm run dead-letter -- edit <id> --file payload.json
+ *   npm run dead-letter -- replay <id> [--force] [--keep]
+ *   npm run dead-letter -- remove <id>
+ *
+ * <id> is the dead-letter job id printed by `list` (`<queue>-<jobId>`). `--set` values are parsed
+ * as JSON when possible, otherwise kept as strings. `replay` refuses payloads that fail schema
+ * validation unless `--force`, and removes the entry unless `--keep`.
+ */
+
+import { readFileSync } from 'node:fs';
+import { Queue } from 'bullmq';
+import type { Job } from 'bullmq';
+import { getConfig } from '../src/config.js';
+import { DbService } from '../src/db.js';
+import { DEAD_LETTER_QUEUE } from '../src/dead-letter.js';
+import type { DeadLetterEntry } from '../src/dead-letter.js';
+import { payloadIssues } from '../src/payload-schema.js';
+import { WORKER_DEFINITIONS } from '../src/workers/registry.js';
+
+const [command, ...rest] = process.argv.slice(2);
+const VALUE_FLAGS = ['--queue', '--code', '--limit', '--file', '--set'];
+/** First positional argument (the dead-letter id). */
+const id = rest.find((arg, i) => !arg.startsWith('--') && !VALUE_FLAGS.includes(rest[i - 1] ?? ''));
+
+function flag(name: string): string | undefined {
+    const i = rest.indexOf(`--${name}`);
+    return i >= 0 ? rest[i + 1] : undefined;
+}
+
+function flags(name: string): string[] {
+    return rest.flatMap((arg, i) => (arg === `--${name}` && rest[i + 1] !== undefined ? [rest[i + 1]!] : []));
+}
+
+const has = (name: string): boolean => rest.includes(`--${name}`);
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+/** Sets `a.b.0.c` on a copy of `target`, creating objects along the way. */
+function setPath(target: unknown, path: string, value: unknown): unknown {
+    const root = structuredClone(target ?? {}) as Record<string, unknown>;
+    const keys = path.split('.');
+    let node: Record<string, unknown> = root;
+    for (const key of keys.slice(0, -1)) {
+        if (typeof node[key] !== 'object' || node[key] === null) node[key] = {};
+        node = node[key] as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]!] = value;
+    return root;
+}
+
+function parseValue(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
+
+async function getEntry(dlq: Queue<DeadLetterEntry>, id: string | undefined): Promise<Job<DeadLetterEntry>> {
+    if (!id) fail(`Usage: dead-letter ${command} <id>`);
+    const job = await dlq.getJob(id);
+    if (!job) fail(`No dead-letter entry ${id}`);
+    return job;
+}
+
+async function list(dlq: Queue<DeadLetterEntry>): Promise<void> {
+    const queue = flag('queue');
+    const code = flag('code');
+    const limit = Number(flag('limit') ?? 50);
+    const jobs = (await dlq.getWaiting(0, -1))
+        .filter((j) => (!queue || j.data.queue === queue) && (!code || j.data.errorCode === code))
+        .slice(0, limit);
+    if (jobs.length === 0) {
+        console.log('No dead-lettered jobs.');
+        return;
+    }
+    for (const { id, data } of jobs) {
+        const replayed = data.replays?.length ? ` replayed×${data.replays.length}` : '';
+        console.log(`${id}  ${data.failedAt}  ${data.errorCode}  attempts=${data.attemptsMade}${replayed}  ${data.failedReason.slice(0, 120)}`);
+    }
+}
+
+async function inspect(dlq: Queue<DeadLetterEntry>, id: string | undefined): Promise<void> {
+    const job = await getEntry(dlq, id);
+    const { stderrTail, ...entry } = job.data;
+    console.log(JSON.stringify(entry, null, 2));
+    if (stderrTail) console.log(`\n--- ffmpeg stderr (tail) ---\n${stderrTail}`);
+    const issues = payloadIssues(entry.queue, entry.data);
+    if (issues.length > 0) console.log(`\nPayload does not validate:\n${issues.map((i) => `  - ${i}`).join('\n')}`);
+}
+
+async function edit(dlq: Queue<DeadLetterEntry>, id: string | undefined): Promise<void> {
+    const job = await getEntry(dlq, id);
+    const file = flag('file');
+    const sets = flags('set');
+    if (!file && sets.length === 0) fail('edit needs --file <payload.json> or --set <path>=<value>');
+
+    let data: unknown = file ? JSON.parse(readFileSync(file, 'utf8')) : job.data.data;
+    for (const assignment of sets) {
+        const eq = assignment.indexOf('=');
+        if (eq <= 0) fail(`Bad --set ${assignment} (expected path=value)`);
+        data = setPath(data, assignment.slice(0, eq), parseValue(assignment.slice(eq + 1)));
+    }
+    await job.updateData({ ...job.data, data, editedAt: new Date().toISOString() });
+    console.log(`Updated payload of ${job.id}.`);
+    const issues = payloadIssues(job.data.queue, data);
+    if (issues.length > 0) console.log(`Payload still does not validate:\n${issues.map((i) => `  - ${i}`).join('\n')}`);
+}
+
+async function replay(dlq: Queue<DeadLetterEntry>, id: string | undefined, redisUrl: string): Promise<void> {
+    const job = await getEntry(dlq, id);
+    const entry = job.data;
+    const definition = WORKER_DEFINITIONS.find((d) => d.queue === entry.queue);
+    if (!definition) fail(`Unknown queue ${entry.queue}`);
+
+    const issues = payloadIssues(entry.queue, entry.data);
+    if (issues.length > 0 && !has('force')) {
+        fail(`Payload does not validate (fix with \`edit\` or pass --force):\n${issues.map((i) => `  - ${i}`).join('\n')}`);
+    }
+
+    // Finalize only runs for rows still `processing`, so the failed row must be reopened first.
+    const rowId = (entry.data as Record<string, unknown>)[definition.target === 'step' ? 'stepId' : 'projectId'];
+    if (typeof rowId === 'string' && rowId) {
+        const db = new DbService();
+        try {
+            const reopened = definition.target === 'step'
+                ? await db.reopenFailedStep(rowId)
+                : await db.reopenFailedProject(rowId);
+            console.log(reopened ? `Reopened ${definition.target} ${rowId}.` : `${definition.target} ${rowId} was not failed; left as is.`);
+        } finally {
+            await db.disconnect();
+        }
+    }
+
+    const target = new Queue(entry.queue, { connection: { url: redisUrl } });
+    try {
+        const replayed = await target.add(entry.jobName, entry.data, { ...entry.opts, removeOnComplete: true, removeOnFail: false });
+        console.log(`Replayed ${job.id} as ${entry.queue} job ${replayed.id}.`);
+        if (has('keep')) {
+            const replays = [...(entry.replays ?? []), { at: new Date().toISOString(), jobId: replayed.id! }];
+            await job.updateData({ ...entry, replays });
+        } else {
+            await job.remove();
+        }
+    } finally {
+        await target.close();
+    }
+}
+
+async function main(): Promise<void> {
+    const redisUrl = getConfig().redis.url;
+    const dlq = new Queue<DeadLetterEntry>(DEAD_LETTER_QUEUE, { connection: { url: redisUrl } });
+    try {
+        switch (command) {
+            case 'list':
+                return await list(dlq);
+            case 'inspect':
+                return await inspect(dlq, id);
+            case 'edit':
+                return await edit(dlq, id);
+            case 'replay':
+                return await replay(dlq, id, redisUrl);
+            case 'remove': {
+                const job = await getEntry(dlq, id);
+                await job.remove();
+                console.log(`Removed ${job.id}.`);
+                return;
+            }
+            default:
+                fail('Usage: dead-letter <list|inspect|edit|replay|remove> [...] (see scripts/dead-letter.ts)');
+        }
+    } finally {
+        await dlq.close();
+    }
+}
+
+main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+});
@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+/**
+ * Write the job payload JSON Schema (one entry per queue) so the backend can validate
+ * jobs before enqueueing them. Commit the output alongside any payload change.
+ *
+ * Usage (from render-worker):
+ *   npm run payload-schema
+ *   npx tsx scripts/export-payload-schema.ts [outputPath]
+ */
+
+import { writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PAYLOAD_SCHEMA_VERSION, payloadJsonSchema } from '../src/payload-schema.js';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const outputPath = process.argv[2] ?? join(ROOT, 'schemas', `job-payloads.v${PAYLOAD_SCHEMA_VERSION}.json`);
+
+mkdirSync(dirname(outputPath), { recursive: true });
+writeFileSync(outputPath, JSON.stringify(payloadJsonSchema(), null, 2) + '\n');
+console.log(`Wrote payload schema v${PAYLOAD_SCHEMA_VERSION} to ${outputPath}`);
@@ -145,7 +145,7 @@ async function main() {
 
     const job = await queue.add('remotion-render', payload, {
       attempts: 3,
-      backoff: { type: 'exponential', delay: 5000 },
+      backoff: { type: 'render-error' },
       removeOnComplete: true,
       removeOnFail: false,
     });
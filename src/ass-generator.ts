@@ -16,21 +16,56 @@ function stripParentheticalTransliteration(text: string): string {
     return text.slice(0, idx).trim();
 }
 
+/** True when captions need the Devanagari font: a Hindi language tag or Devanagari in the text. */
+export const usesDevanagari = (captions: any[], language?: string): boolean =>
+    isHindiLanguage(language) || hasDevanagariText(captions);
+
+/** SRT cues as word-less captions (`{ start, end, text }` in seconds), so SRT gets the same presets as JSON. */
+export function parseSrt(srt: string): { start: number; end: number; text: string }[] {
+    const toSeconds = (t: string): number => {
+        const [h, m, rest] = t.trim().replace(',', '.').split(':');
+        return Number(h) * 3600 + Number(m) * 60 + Number(rest);
+    };
+    return srt
+        .replace(/\r/g, '')
+        .split(/\n\s*\n/)
+        .flatMap((block) => {
+            const lines = block.trim().split('\n');
+            const timing = lines.findIndex((line) => line.includes('-->'));
+            if (timing === -1) return [];
+            const [start, end] = lines[timing]!.split('-->').map((t) => toSeconds(t.trim().split(' ')[0]!));
+            const text = lines.slice(timing + 1).join('\\N').replace(/<[^>]+>/g, '').trim();
+            return Number.isFinite(start) && Number.isFinite(end) && text ? [{ start: start!, end: end!, text }] : [];
+        });
+}
+
 /** Font that supports Devanagari (Hindi). Use with fontsdir so the bundled font is loaded. */
 const FONT_HINDI = 'Noto Sans Devanagari';
 const FONT_DEFAULT = 'Arial';
 
+/** Script units on the video's short side; font sizes are relative to it. */
+const SHORT_SIDE = 720;
+/** Distance from the edge per position, as a fraction of the height: vertical video keeps captions clear of the platform UI. */
+const MARGIN_V_VERTICAL: Record<string, number> = { top: 100 / 1280, center: 50 / 1280, bottom: 150 / 1280 };
+const MARGIN_V_WIDE: Record<string, number> = { top: 0.05, center: 0, bottom: 0.07 };
+
 export class AssGenerator {
-    static generate(captions: any[], preset: string, position: string, language?: string): string {
-        const isHindi = isHindiLanguage(language) || hasDevanagariText(captions);
+    /**
+     * `aspectRatio` (width / height) of the video. The script resolution has SHORT_SIDE units on the
+     * short side, so captions keep their size in 9:16, 1:1 and 16:9; margins follow the height.
+     */
+    static generate(captions: any[], preset: string, position: string, language?: string, aspectRatio: number = 720 / 1280): string {
+        const isHindi = usesDevanagari(captions, language);
         const fontName = isHindi ? FONT_HINDI : FONT_DEFAULT;
         const sanitizeForHindi = isHindi;
+        const playResX = aspectRatio < 1 ? SHORT_SIDE : Math.round(SHORT_SIDE * aspectRatio);
+        const playResY = aspectRatio < 1 ? Math.round(SHORT_SIDE / aspectRatio) : SHORT_SIDE;
 
         // ASS Header
         let ass = `[Script Info]
 ScriptType: v4.00+
-PlayResX: 720
-PlayResY: 1280
+PlayResX: ${playResX}
+PlayResY: ${playResY}
 
 [V4+ Styles]
 Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
@@ -38,7 +73,8 @@ Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour,
 
         // Define Style based on preset using the same mapping logic
         const align = position === 'top' ? 8 : position === 'center' ? 5 : 2;
-        const marginV = position === 'top' ? 100 : position === 'center' ? 50 : 150;
+        const margins = aspectRatio < 1 ? MARGIN_V_VERTICAL : MARGIN_V_WIDE;
+        const marginV = Math.round(playResY * (margins[position] ?? margins.bottom!));
 
         // Colors: &HAlphaBlueGreenRed
         let styleDef = '';
@@ -0,0 +1,81 @@
+import { Redis } from 'ioredis';
+
+const CANCEL_POLL_INTERVAL_MS = 2000;
+
+/** What a job renders for: media (reel/stock video renders) or project (kinetic typography, video tools). */
+export type CancelScope = 'media' | 'project';
+
+/**
+ * Redis key the backend sets when a user deletes/cancels a media or project, e.g.
+ * `SET render-cancel:media:<mediaId> 1 EX 86400`. Workers watch it while the job runs.
+ */
+export function cancelKey(scope: CancelScope, id: string): string {
+    return `render-cancel:${scope}:${id}`;
+}
+
+export class JobCancelledError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JobCancelledError';
+    }
+}
+
+/**
+ * Per-job cancellation handle. `signal` aborts (reason: JobCancelledError) once the cancel key appears,
+ * or with the parent's reason (e.g. shutdown); pass it to ffmpeg spawns, downloads and render polling.
+ * `cancelled` is only true for a user cancel. Always call dispose() when the job ends.
+ */
+export interface CancellationToken {
+    readonly signal: AbortSignal;
+    readonly cancelled: boolean;
+    dispose(): void;
+}
+
+export class CancellationService {
+    private redis: Redis;
+
+    constructor(redisUrl: string) {
+        this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 1, lazyConnect: true });
+        this.redis.on('error', (err) => {
+            console.error('[Cancel] Redis error:', err.message);
+        });
+    }
+
+    async isCancelled(scope: CancelScope, id: string): Promise<boolean> {
+        return (await this.redis.exists(cancelKey(scope, id))) > 0;
+    }
+
+    watch(scope: CancelScope, id: string, parent?: AbortSignal): CancellationToken {
+        const controller = new AbortController();
+        const signal = parent ? AbortSignal.any([controller.signal, parent]) : controller.signal;
+        const check = async () => {
+            if (controller.signal.aborted) return;
+            try {
+                if (await this.isCancelled(scope, id)) {
+                    console.warn(`[Cancel] 🛑 ${scope} ${id} was cancelled, aborting job`);
+                    controller.abort(new JobCancelledError(`${scope} ${id} was cancelled`));
+                }
+            } catch (err: unknown) {
+                // A Redis hiccup must not fail the render; the next tick retries.
+                const msg = err instanceof Error ? err.message : String(err);
+                console.warn(`[Cancel] Check failed for ${scope} ${id}: ${msg}`);
+            }
+        };
+
+        void check();
+        const timer = setInterval(() => void check(), CANCEL_POLL_INTERVAL_MS);
+        timer.unref();
+
+        return {
+            signal,
+            get cancelled() {
+                return controller.signal.aborted;
+            },
+            dispose: () => clearInterval(timer),
+        };
+    }
+
+    async disconnect(): Promise<void> {
+        await this.redis.quit();
+    }
+}
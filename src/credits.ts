@@ -0,0 +1,95 @@
+import type { DbService } from './db.js';
+
+/** `credit_costs.job_type` values; each queue prices its jobs under one of these. */
+export type CreditJobType = 'media' | 'stock-video' | 'kinetic-typography' | 'video-tools' | 'extra-output';
+
+/** Duration bucket of reels whose media row has none (the app's default). */
+const DEFAULT_MEDIA_DURATION = '30-60';
+
+export interface CreditCharge {
+    userId: string;
+    /** Media or project id; the hold and the final deduction are keyed by it. */
+    referenceId: string;
+    amount: number;
+    description: string;
+    metadata: Record<string, unknown>;
+}
+
+/** Prices before the `credit_costs` table; used when it has neither the variant nor a `default` row. */
+const CREDIT_COSTS: Record<CreditJobType, Record<string, number>> = {
+    media: { '30-60': 1, '60-90': 2, '90-120': 3, default: 1 },
+    'stock-video': { '30-60': 1, '60-90': 2, '90-120': 3, default: 1 },
+    'kinetic-typography': { default: 1 },
+    'video-tools': { default: 1 },
+    'extra-output': { default: 1 },
+};
+
+async function lookupCost(db: DbService, jobType: CreditJobType, variant: string): Promise<number> {
+    const cost = await db.getCreditCost(jobType, variant);
+    if (cost === null) {
+        const fallback = CREDIT_COSTS[jobType][variant] ?? CREDIT_COSTS[jobType].default!;
+        console.warn(`[Credits] ⚠️ No credit_costs row for ${jobType}/${variant} (or default); charging the built-in ${fallback}`);
+        return fallback;
+    }
+    return cost;
+}
+
+/**
+ * Reels (FFmpeg, Remotion and stock video) are priced by the media's duration bucket. Each output
+ * beyond the first (`outputs` on the payload) adds the `extra-output` price of the same bucket.
+ */
+export async function priceMediaJob(
+    db: DbService,
+    jobType: 'media' | 'stock-video',
+    mediaId: string,
+    userId: string,
+    outputCount: number = 1,
+): Promise<CreditCharge> {
+    const mediaInfo = await db.getMediaInfo(mediaId);
+    const config = mediaInfo?.input_config || {};
+    const duration: string = config.duration || DEFAULT_MEDIA_DURATION;
+    const topic: string = config.topic || 'Media';
+    const extraOutputs = Math.max(0, outputCount - 1);
+    const amount = await lookupCost(db, jobType, duration)
+        + (extraOutputs > 0 ? extraOutputs * await lookupCost(db, 'extra-output', duration) : 0);
+    return {
+        userId: mediaInfo?.user_id ?? userId,
+        referenceId: mediaId,
+        amount,
+        description: extraOutputs > 0 ? `Media generation: ${topic} (${outputCount} sizes)` : `Media generation: ${topic}`,
+        metadata: { media_id: mediaId, job_type: jobType, topic, duration, outputs: outputCount, creditCost: amount },
+    };
+}
+
+/**
+ * Projects are priced by `variant` (the tool type for video tools). A non-zero `projects.credit_cost`
+ * set by the app takes precedence over the table.
+ */
+export async function priceProjectJob(
+    db: DbService,
+    jobType: 'kinetic-typography' | 'video-tools',
+    projectId: string,
+    userId: string,
+    variant: string = 'default',
+): Promise<CreditCharge> {
+    const projectInfo = await db.getProjectInfo(projectId);
+    const amount = projectInfo?.credit_cost || await lookupCost(db, jobType, variant);
+    const label = jobType === 'kinetic-typography' ? 'Kinetic Typography render' : `Video tools: ${variant}`;
+    return {
+        userId: projectInfo?.user_id ?? userId,
+        referenceId: projectId,
+        amount,
+        description: label,
+        metadata: { project_id: projectId, tool_type: jobType === 'video-tools' ? variant : jobType, creditCost: amount },
+    };
+}
+
+/**
+ * Places the hold before any rendering, so a short balance fails the job up front with
+ * INSUFFICIENT_CREDITS. Retries reuse the existing hold. Free jobs place none.
+ */
+export async function reserveJobCredits(db: DbService, tag: string, charge: CreditCharge): Promise<void> {
+    if (charge.amount <= 0) return;
+    const hold = await db.reserveCredits(charge.userId, charge.referenceId, charge.amount, charge.description, charge.metadata);
+    console.log(`[${tag}] 💳 ${hold.amount} credit(s) ${hold.status} for ${charge.referenceId}`);
+}
@@ -1,16 +1,41 @@
 import { Pool } from 'pg';
-import 'dotenv/config';
+import type { PoolClient } from 'pg';
+import { getConfig } from './config.js';
+import { RenderError } from './render-errors.js';
+import type { MediaVariant } from './outputs.js';
+
+/** Result of an idempotent credit deduction; `applied` is false when the reference was already charged. */
+export interface CreditDeduction {
+    applied: boolean;
+    balanceAfter: number;
+}
+
+/** A `credit_holds` row: credits set aside when a job starts, settled on success or released on failure/cancel. */
+export interface CreditHold {
+    userId: string;
+    amount: number;
+    status: 'held' | 'settled' | 'released';
+}
 
 export class DbService {
     private pool: Pool;
+    /** Where queries run: the pool, or the client of the transaction this service was handed to. */
+    private executor: Pool | PoolClient;
 
-    constructor() {
+    /** `tx` is internal: set by transaction() for the service passed to its callback. */
+    constructor(tx?: { pool: Pool; client: PoolClient }) {
+        if (tx) {
+            this.pool = tx.pool;
+            this.executor = tx.client;
+            return;
+        }
         this.pool = new Pool({
-            connectionString: process.env.DATABASE_URL,
+            connectionString: getConfig().database.url,
             ssl: { rejectUnauthorized: false },
             max: 5, // Max clients in the pool
             idleTimeoutMillis: 30000,
         });
+        this.executor = this.pool;
 
         this.pool.on('error', (err) => {
             console.error('Unexpected error on idle client', err);
@@ -18,29 +43,59 @@ export class DbService {
         });
     }
 
+    private get inTransaction(): boolean {
+        return this.executor !== this.pool;
+    }
+
+    /**
+     * Runs `fn` in one transaction: every query on the `tx` service commits together or rolls back
+     * if `fn` throws. Nested calls on `tx` join the outer transaction.
+     */
+    async transaction<T>(fn: (tx: DbService) => Promise<T>): Promise<T> {
+        if (this.inTransaction) return fn(this);
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            const result = await fn(new DbService({ pool: this.pool, client }));
+            await client.query('COMMIT');
+            return result;
+        } catch (err) {
+            try {
+                await client.query('ROLLBACK');
+            } catch (rollbackErr) {
+                console.error('[DB] Rollback failed:', rollbackErr);
+            }
+            throw err;
+        } finally {
+            client.release();
+        }
+    }
+
     async connect() {
         // Pool connects lazily, but let's test it
         const client = await this.pool.connect();
         client.release();
     }
 
-    async updateStepStatus(stepId: string, status: string, blobId?: string | string[], errorMessage?: string) {
+    /** `errorCode` is a RenderErrorCode (see render-errors.ts); cleared when omitted. */
+    async updateStepStatus(stepId: string, status: string, blobId?: string | string[], errorMessage?: string, errorCode?: string) {
         const query = `
       UPDATE media_steps 
       SET status = $1, 
           blob_storage_id = $2, 
           error_message = $3, 
-          completed_at = $4 
-      WHERE id = $5
+          error_code = $4, 
+          completed_at = $5 
+      WHERE id = $6
     `;
         const completedAt = status === 'success' ? new Date() : null;
         const blobIdJson = blobId ? JSON.stringify(blobId) : null;
-        await this.pool.query(query, [status, blobIdJson, errorMessage, completedAt, stepId]);
+        await this.executor.query(query, [status, blobIdJson, errorMessage, errorCode ?? null, completedAt, stepId]);
     }
 
     /** Returns current step status or null if not found. */
     async getStepStatus(stepId: string): Promise<string | null> {
-        const res = await this.pool.query(
+        const res = await this.executor.query(
             'SELECT status FROM media_steps WHERE id = $1',
             [stepId],
         );
@@ -56,7 +111,7 @@ export class DbService {
     ): Promise<boolean> {
         const completedAt = status === 'success' ? new Date() : null;
         const blobIdJson = blobId ? JSON.stringify(blobId) : null;
-        const res = await this.pool.query(
+        const res = await this.executor.query(
             `UPDATE media_steps 
              SET status = $1, blob_storage_id = $2, error_message = $3, completed_at = $4, updated_at = NOW()
              WHERE id = $5 AND status = 'processing'
@@ -66,9 +121,29 @@ export class DbService {
         return (res.rowCount ?? 0) > 0;
     }
 
+    /** Puts a failed step back to processing before a dead-letter replay. Returns false if it was not failed. */
+    async reopenFailedStep(stepId: string): Promise<boolean> {
+        const res = await this.executor.query(
+            `UPDATE media_steps
+             SET status = 'processing', error_message = NULL, error_code = NULL, progress = NULL, updated_at = NOW()
+             WHERE id = $1 AND status = 'failed'
+             RETURNING id`,
+            [stepId],
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    /** Render progress (0–100) for a step that is still processing; late writes after finalize are no-ops. */
+    async updateStepProgress(stepId: string, progress: number): Promise<void> {
+        await this.executor.query(
+            `UPDATE media_steps SET progress = $1, updated_at = NOW() WHERE id = $2 AND status = 'processing'`,
+            [progress, stepId],
+        );
+    }
+
     /** Finalizes media only if not already completed. Returns true if updated, false otherwise (idempotent). */
     async finalizeMediaOnlyIfNotCompleted(mediaId: string, resultBlobId: string): Promise<boolean> {
-        const res = await this.pool.query(
+        const res = await this.executor.query(
             `UPDATE media 
              SET status = 'completed', blob_storage_id = $1, completed_at = NOW(), updated_at = NOW()
              WHERE id = $2 AND status != 'completed'
@@ -78,12 +153,28 @@ export class DbService {
         return (res.rowCount ?? 0) > 0;
     }
 
+    /** Records every rendered size of a multi-output media (`media.output_variants`, jsonb). */
+    async setMediaVariants(mediaId: string, variants: MediaVariant[]): Promise<void> {
+        await this.executor.query(
+            'UPDATE media SET output_variants = $1::jsonb, updated_at = NOW() WHERE id = $2',
+            [JSON.stringify(variants), mediaId],
+        );
+    }
+
+    /** Records the HLS master playlist key of a media (`media.hls_playlist_key`). */
+    async setMediaHlsPlaylist(mediaId: string, playlistKey: string): Promise<void> {
+        await this.executor.query(
+            'UPDATE media SET hls_playlist_key = $1, updated_at = NOW() WHERE id = $2',
+            [playlistKey, mediaId],
+        );
+    }
+
     async addAsset(mediaId: string, type: string, blobId: string) {
         const query = `
       INSERT INTO media_assets (id, media_id, type, blob_storage_id, created_at)
       VALUES (gen_random_uuid(), $1, $2, $3, NOW())
     `;
-        await this.pool.query(query, [mediaId, type, blobId]);
+        await this.executor.query(query, [mediaId, type, blobId]);
     }
 
     async finalizeMedia(mediaId: string, resultBlobId: string) {
@@ -95,7 +186,7 @@ export class DbService {
           updated_at = NOW()
       WHERE id = $2
     `;
-        await this.pool.query(query, [resultBlobId, mediaId]);
+        await this.executor.query(query, [resultBlobId, mediaId]);
     }
 
     async getMediaInfo(mediaId: string) {
@@ -105,13 +196,13 @@ export class DbService {
             LEFT JOIN users u ON m.user_id = u.id
             WHERE m.id = $1
         `;
-        const res = await this.pool.query(query, [mediaId]);
+        const res = await this.executor.query(query, [mediaId]);
         return res.rows[0];
     }
 
     /** When media completes, update linked project (status + output_url as blob id). Idempotent. */
     async updateProjectOnMediaComplete(mediaId: string, resultBlobId: string): Promise<void> {
-        await this.pool.query(
+        await this.executor.query(
             `UPDATE projects p
              SET status = 'completed', output_url = $1, completed_at = NOW(), updated_at = NOW()
              FROM media m
@@ -122,7 +213,7 @@ export class DbService {
 
     /** Get project info for finalization (kinetic typography). Returns user_id, credit_cost, metadata. */
     async getProjectInfo(projectId: string): Promise<{ user_id: string; credit_cost: number; metadata?: any } | null> {
-        const res = await this.pool.query(
+        const res = await this.executor.query(
             'SELECT user_id, credit_cost, metadata FROM projects WHERE id = $1',
             [projectId],
         );
@@ -132,7 +223,7 @@ export class DbService {
 
     /** Finalize project (kinetic typography): set completed and output_url only if not already completed. Idempotent. */
     async finalizeProjectOnlyIfNotCompleted(projectId: string, resultBlobId: string): Promise<boolean> {
-        const res = await this.pool.query(
+        const res = await this.executor.query(
             `UPDATE projects
              SET status = 'completed', output_url = $1, completed_at = NOW(), updated_at = NOW()
              WHERE id = $2 AND status != 'completed'
@@ -142,35 +233,195 @@ export class DbService {
         return (res.rowCount ?? 0) > 0;
     }
 
-    /** Update project status (e.g. failed). Used by kinetic worker on error. */
-    async updateProjectStatus(projectId: string, status: string, errorMessage?: string): Promise<void> {
-        await this.pool.query(
-            `UPDATE projects SET status = $1, error_message = $2, updated_at = NOW() WHERE id = $3`,
-            [status, errorMessage ?? null, projectId],
+    /** Update project status (e.g. failed, with a RenderErrorCode). Used by project workers on error. */
+    async updateProjectStatus(projectId: string, status: string, errorMessage?: string, errorCode?: string): Promise<void> {
+        await this.executor.query(
+            `UPDATE projects SET status = $1, error_message = $2, error_code = $3, updated_at = NOW() WHERE id = $4`,
+            [status, errorMessage ?? null, errorCode ?? null, projectId],
+        );
+    }
+
+    /** Shallow-merges `patch` into `projects.metadata` (jsonb), replacing the keys it sets. */
+    async mergeProjectMetadata(projectId: string, patch: Record<string, unknown>): Promise<void> {
+        await this.executor.query(
+            `UPDATE projects SET metadata = COALESCE(metadata, '{}'::jsonb) || $1::jsonb, updated_at = NOW() WHERE id = $2`,
+            [JSON.stringify(patch), projectId],
         );
     }
 
-    async deductCredits(userId: string, amount: number, description: string, referenceId: string, metadata?: any) {
-        // 1. Get current balance
-        const userRes = await this.pool.query('SELECT credits_balance FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    /** Puts a failed project back to processing before a dead-letter replay. Returns false if it was not failed. */
+    async reopenFailedProject(projectId: string): Promise<boolean> {
+        const res = await this.executor.query(
+            `UPDATE projects
+             SET status = 'processing', error_message = NULL, error_code = NULL, progress = NULL, updated_at = NOW()
+             WHERE id = $1 AND status = 'failed'
+             RETURNING id`,
+            [projectId],
+        );
+        return (res.rowCount ?? 0) > 0;
+    }
+
+    /** Render progress (0–100) for a project job; ignored once the project is completed. */
+    async updateProjectProgress(projectId: string, progress: number): Promise<void> {
+        await this.executor.query(
+            `UPDATE projects SET progress = $1, updated_at = NOW() WHERE id = $2 AND status != 'completed'`,
+            [progress, projectId],
+        );
+    }
+
+    /**
+     * Deducts credits at most once per `(referenceId, transactionType)`: a retry or duplicate finalize
+     * finds the existing credit_transactions row and changes nothing. Locks the user row, so concurrent
+     * renders for one user serialize. Throws INSUFFICIENT_CREDITS without touching the balance.
+     * Runs in its own transaction unless called on a transaction's `tx`.
+     */
+    async deductCredits(
+        userId: string,
+        amount: number,
+        description: string,
+        referenceId: string,
+        metadata?: any,
+        transactionType: string = 'deduction',
+    ): Promise<CreditDeduction> {
+        if (!this.inTransaction) {
+            return this.transaction((tx) => tx.deductCredits(userId, amount, description, referenceId, metadata, transactionType));
+        }
+
+        // 1. Lock the user row for the rest of the transaction
+        const userRes = await this.executor.query('SELECT credits_balance FROM users WHERE id = $1 FOR UPDATE', [userId]);
         if (userRes.rowCount === 0) throw new Error('User not found');
         const currentBalance = userRes.rows[0].credits_balance;
 
+        // 2. Idempotency: this reference was already charged
+        const existing = await this.executor.query(
+            'SELECT balance_after FROM credit_transactions WHERE reference_id = $1 AND transaction_type = $2 LIMIT 1',
+            [referenceId, transactionType],
+        );
+        if ((existing.rowCount ?? 0) > 0) {
+            return { applied: false, balanceAfter: existing.rows[0].balance_after };
+        }
+
         if (currentBalance < amount) {
-            throw new Error('Insufficient credits');
+            throw new RenderError('INSUFFICIENT_CREDITS', `User ${userId} has ${currentBalance} credits, needs ${amount}`);
         }
 
         const newBalance = currentBalance - amount;
 
-        // 2. Update balance
-        await this.pool.query('UPDATE users SET credits_balance = $1 WHERE id = $2', [newBalance, userId]);
+        // 3. Update balance
+        await this.executor.query('UPDATE users SET credits_balance = $1 WHERE id = $2', [newBalance, userId]);
 
-        // 3. Create transaction
+        // 4. Create transaction (unique (reference_id, transaction_type) backs up the check above)
         const txQuery = `
       INSERT INTO credit_transactions (id, user_id, transaction_type, amount, balance_after, description, reference_id, metadata, created_at)
-      VALUES (gen_random_uuid(), $1, 'deduction', $2, $3, $4, $5, $6, NOW())
+      VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, $6, $7, NOW())
     `;
-        await this.pool.query(txQuery, [userId, -amount, newBalance, description, referenceId, metadata ? JSON.stringify(metadata) : null]);
+        await this.executor.query(txQuery, [userId, transactionType, -amount, newBalance, description, referenceId, metadata ? JSON.stringify(metadata) : null]);
+        return { applied: true, balanceAfter: newBalance };
+    }
+
+    /**
+     * Credits for a job from the `credit_costs` table: the row for `variant`, else the job type's
+     * `default` row. Null when the job type is not priced.
+     */
+    async getCreditCost(jobType: string, variant?: string): Promise<number | null> {
+        const res = await this.executor.query(
+            `SELECT credits FROM credit_costs
+             WHERE job_type = $1 AND variant IN ($2, 'default')
+             ORDER BY variant = $2 DESC
+             LIMIT 1`,
+            [jobType, variant ?? 'default'],
+        );
+        return res.rows[0]?.credits ?? null;
+    }
+
+    /**
+     * Sets `amount` credits aside for `referenceId` (media or project id). Available credits are the
+     * balance minus the user's other open holds; throws INSUFFICIENT_CREDITS when they fall short.
+     * Idempotent per reference: an open or settled hold is returned as is (retries reuse it), a
+     * released one is placed again (e.g. a dead-letter replay).
+     */
+    async reserveCredits(
+        userId: string,
+        referenceId: string,
+        amount: number,
+        description: string,
+        metadata?: any,
+    ): Promise<CreditHold> {
+        if (!this.inTransaction) {
+            return this.transaction((tx) => tx.reserveCredits(userId, referenceId, amount, description, metadata));
+        }
+
+        // Same lock as deductCredits, so concurrent holds for one user are checked one at a time.
+        const userRes = await this.executor.query('SELECT credits_balance FROM users WHERE id = $1 FOR UPDATE', [userId]);
+        if (userRes.rowCount === 0) throw new Error('User not found');
+        const balance: number = userRes.rows[0].credits_balance;
+
+        const existing = await this.executor.query(
+            'SELECT user_id, amount, status FROM credit_holds WHERE reference_id = $1',
+            [referenceId],
+        );
+        const hold = existing.rows[0];
+        if (hold && hold.status !== 'released') {
+            return { userId: hold.user_id, amount: hold.amount, status: hold.status };
+        }
+
+        const heldRes = await this.executor.query(
+            `SELECT COALESCE(SUM(amount), 0)::int AS held FROM credit_holds WHERE user_id = $1 AND status = 'held'`,
+            [userId],
+        );
+        const available = balance - heldRes.rows[0].held;
+        if (available < amount) {
+            throw new RenderError(
+                'INSUFFICIENT_CREDITS',
+                `User ${userId} has ${available} available credits (balance ${balance}), needs ${amount}`,
+            );
+        }
+
+        await this.executor.query(
+            `INSERT INTO credit_holds (id, user_id, reference_id, amount, description, metadata, status, created_at, updated_at)
+             VALUES (gen_random_uuid(), $1, $2, $3, $4, $5, 'held', NOW(), NOW())
+             ON CONFLICT (reference_id) DO UPDATE
+             SET user_id = EXCLUDED.user_id, amount = EXCLUDED.amount, description = EXCLUDED.description,
+                 metadata = EXCLUDED.metadata, status = 'held', updated_at = NOW()`,
+            [userId, referenceId, amount, description, metadata ? JSON.stringify(metadata) : null],
+        );
+        return { userId, amount, status: 'held' };
+    }
+
+    /**
+     * Captures the open hold for `referenceId`: deducts its amount (see deductCredits) and marks it
+     * settled. Returns null when there is no open hold (nothing reserved, or already settled).
+     */
+    async settleCredits(referenceId: string): Promise<CreditDeduction | null> {
+        if (!this.inTransaction) {
+            return this.transaction((tx) => tx.settleCredits(referenceId));
+        }
+
+        const res = await this.executor.query(
+            `SELECT user_id, amount, description, metadata FROM credit_holds
+             WHERE reference_id = $1 AND status = 'held'
+             FOR UPDATE`,
+            [referenceId],
+        );
+        const hold = res.rows[0];
+        if (!hold) return null;
+
+        const deduction = await this.deductCredits(hold.user_id, hold.amount, hold.description, referenceId, hold.metadata);
+        await this.executor.query(
+            `UPDATE credit_holds SET status = 'settled', updated_at = NOW() WHERE reference_id = $1`,
+            [referenceId],
+        );
+        return deduction;
+    }
+
+    /** Drops the open hold for `referenceId` (failed or cancelled job). Returns false when there was none. */
+    async releaseCredits(referenceId: string): Promise<boolean> {
+        const res = await this.executor.query(
+            `UPDATE credit_holds SET status = 'released', updated_at = NOW()
+             WHERE reference_id = $1 AND status = 'held'`,
+            [referenceId],
+        );
+        return (res.rowCount ?? 0) > 0;
     }
 
     async disconnect() {
@@ -0,0 +1,112 @@
+import { Queue } from 'bullmq';
+import type { Job, JobsOptions, Worker } from 'bullmq';
+import { classifyError } from './render-errors.js';
+import type { RenderError, RenderErrorCode } from './render-errors.js';
+
+/** Holds one job per render that exhausted its attempts; nothing consumes it (see scripts/dead-letter.ts). */
+export const DEAD_LETTER_QUEUE = 'render-dead-letter';
+
+/** Prefix of the job log line markFailed writes for every failed attempt. */
+const ATTEMPT_LOG_PREFIX = 'attempt-failed ';
+
+export interface FailedAttempt {
+    attempt: number;
+    code: RenderErrorCode;
+    message: string;
+    at: string;
+}
+
+export interface DeadLetterEntry {
+    /** Queue the job failed on; replays go back there. */
+    queue: string;
+    jobId: string;
+    jobName: string;
+    /** The original payload; the CLI may edit it before a replay. */
+    data: unknown;
+    /** Retry options to enqueue the replay with. */
+    opts: Pick<JobsOptions, 'attempts' | 'backoff'>;
+    errorCode: RenderErrorCode;
+    failedReason: string;
+    stderrTail?: string;
+    attemptsMade: number;
+    history: FailedAttempt[];
+    failedAt: string;
+    /** Set by the CLI. */
+    editedAt?: string;
+    replays?: { at: string; jobId: string }[];
+}
+
+/** Appends this attempt to the job log, where the dead-letter entry's history is read from. */
+export async function recordFailedAttempt(job: Job, failure: RenderError): Promise<void> {
+    const attempt: FailedAttempt = {
+        attempt: job.attemptsMade + 1,
+        code: failure.code,
+        message: failure.message,
+        at: new Date().toISOString(),
+    };
+    await job.log(ATTEMPT_LOG_PREFIX + JSON.stringify(attempt));
+}
+
+function parseHistory(logs: string[]): FailedAttempt[] {
+    return logs
+        .filter((line) => line.startsWith(ATTEMPT_LOG_PREFIX))
+        .flatMap((line) => {
+            try {
+                return [JSON.parse(line.slice(ATTEMPT_LOG_PREFIX.length)) as FailedAttempt];
+            } catch {
+                return [];
+            }
+        });
+}
+
+/** `<queue>-<jobId>`, so a job is dead-lettered at most once per failure. */
+export const deadLetterId = (queue: string, jobId: string): string => `${queue}-${jobId}`;
+
+export class DeadLetterService {
+    readonly queue: Queue<DeadLetterEntry>;
+
+    constructor(redisUrl: string) {
+        this.queue = new Queue<DeadLetterEntry>(DEAD_LETTER_QUEUE, { connection: { url: redisUrl } });
+        this.queue.on('error', (err) => {
+            console.error('[DeadLetter] Redis error:', err.message);
+        });
+    }
+
+    /** Dead-letter jobs from this worker once they fail for good (permanent error or last attempt). */
+    watch(worker: Worker): void {
+        worker.on('failed', (job, err) => {
+            // finishedOn is only set when the job moved to the failed set rather than back to wait/delayed.
+            if (!job?.finishedOn) return;
+            this.record(worker, job, err).catch((dlqErr: unknown) => {
+                const msg = dlqErr instanceof Error ? dlqErr.message : String(dlqErr);
+                console.error(`[DeadLetter] ❌ Could not dead-letter ${worker.name} job ${job.id}: ${msg}`);
+            });
+        });
+    }
+
+    async record(worker: Worker, job: Job, err: Error): Promise<void> {
+        const queue = worker.name;
+        const failure = classifyError(err);
+        // Same read as Queue#getJobLogs, on the worker's own connection.
+        const logs = await (await worker.client).lrange(worker.toKey(`${job.id}:logs`), 0, -1);
+        const entry: DeadLetterEntry = {
+            queue,
+            jobId: job.id!,
+            jobName: job.name,
+            data: job.data,
+            opts: { attempts: job.opts.attempts, backoff: job.opts.backoff },
+            errorCode: failure.code,
+            failedReason: job.failedReason ?? failure.message,
+            stderrTail: failure.stderr,
+            attemptsMade: job.attemptsMade,
+            history: parseHistory(logs),
+            failedAt: new Date(job.finishedOn ?? Date.now()).toISOString(),
+        };
+        await this.queue.add(queue, entry, { jobId: deadLetterId(queue, job.id!) });
+        console.warn(`[DeadLetter] 🪦 ${queue} job ${job.id} dead-lettered (${failure.code}, ${job.attemptsMade} attempt(s))`);
+    }
+
+    async close(): Promise<void> {
+        await this.queue.close();
+    }
+}
@@ -0,0 +1,66 @@
+import { execFile } from 'node:child_process';
+
+export const DEPENDENCY_CHECK_TIMEOUT_MS = 3000;
+
+/** A runtime dependency of the worker; used for boot validation and /readyz. */
+export interface DependencyCheck {
+    name: string;
+    /** Resolves when the dependency is usable; rejects with the reason otherwise. */
+    check: () => Promise<void>;
+    /** Optional dependencies (the worker degrades without them) only warn at boot and don't fail /readyz. */
+    optional?: boolean;
+}
+
+export function withTimeout(promise: Promise<void>, ms: number): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export interface DependencyCheckResult {
+    name: string;
+    optional: boolean;
+    /** Undefined when the check passed. */
+    error?: string;
+}
+
+/** Runs checks in parallel, each bounded by DEPENDENCY_CHECK_TIMEOUT_MS; results keep input order. */
+export async function runDependencyChecks(checks: DependencyCheck[]): Promise<DependencyCheckResult[]> {
+    return Promise.all(
+        checks.map(async ({ name, check, optional }): Promise<DependencyCheckResult> => {
+            try {
+                await withTimeout(check(), DEPENDENCY_CHECK_TIMEOUT_MS);
+                return { name, optional: Boolean(optional) };
+            } catch (err: unknown) {
+                return { name, optional: Boolean(optional), error: err instanceof Error ? err.message : String(err) };
+            }
+        }),
+    );
+}
+
+/**
+ * Checks a CLI is installed: only a missing executable (ENOENT) fails, not its exit code
+ * (`aubio` prints usage and exits non-zero). Success is cached, since binaries don't disappear.
+ */
+export function binaryCheck(command: string, args: string[] = ['-version'], optional?: boolean): DependencyCheck {
+    let found = false;
+    return {
+        name: command,
+        optional,
+        check: () => {
+            if (found) return Promise.resolve();
+            return new Promise((resolve, reject) => {
+                execFile(command, args, { timeout: DEPENDENCY_CHECK_TIMEOUT_MS }, (err) => {
+                    if ((err as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+                        reject(new Error(`${command} not found on PATH`));
+                        return;
+                    }
+                    found = true;
+                    resolve();
+                });
+            });
+        },
+    };
+}
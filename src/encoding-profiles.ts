@@ -0,0 +1,95 @@
+import { getConfig } from './config.js';
+
+/** x264/x265 settings of one quality rung; shared by the reel renderer and the video tools. */
+export interface EncodingProfile {
+    /** Speed preset; `undefined` keeps the job's `preset` (reels) or `fast` (video tools). */
+    preset?: string;
+    /** x264 CRF; HEVC output uses CRF + HEVC_CRF_OFFSET for similar quality. */
+    crf: number;
+    /** VBV cap in kbit/s (buffer twice that); 0 leaves CRF uncapped. */
+    maxrateKbps: number;
+    fps: 24 | 25 | 30 | 60;
+    /** Keyframe interval in seconds. */
+    gopSec: number;
+    audioBitrateKbps: number;
+}
+
+/** From cheapest to most expensive; a plan's cap (ENCODING_MAX_PROFILE_BY_PLAN) cuts the ladder. */
+export const ENCODING_PROFILES = {
+    draft: { preset: 'ultrafast', crf: 30, maxrateKbps: 2000, fps: 24, gopSec: 2, audioBitrateKbps: 96 },
+    standard: { crf: 23, maxrateKbps: 0, fps: 25, gopSec: 2, audioBitrateKbps: 192 },
+    'platform-instagram': { preset: 'medium', crf: 21, maxrateKbps: 8000, fps: 30, gopSec: 2, audioBitrateKbps: 128 },
+    high: { preset: 'slow', crf: 18, maxrateKbps: 16000, fps: 30, gopSec: 2, audioBitrateKbps: 256 },
+} as const satisfies Record<string, EncodingProfile>;
+
+export type EncodingProfileName = keyof typeof ENCODING_PROFILES;
+
+const LADDER = Object.keys(ENCODING_PROFILES) as EncodingProfileName[];
+const HEVC_CRF_OFFSET = 5;
+
+/** What a payload asks for (`encoding`); both fields are optional. */
+export interface EncodingSelection {
+    profile?: EncodingProfileName;
+    /** HEVC (H.265, tagged `hvc1` for Apple players) instead of H.264. */
+    hevc?: boolean;
+}
+
+export interface ResolvedEncoding extends EncodingProfile {
+    name: EncodingProfileName;
+    hevc: boolean;
+    /**
+     * The payload named the profile or the plan lowered it; only then do video tools cap the frame
+     * rate at `fps` (see maxFps). Otherwise uploads keep their own rate.
+     */
+    enforceFps: boolean;
+}
+
+/**
+ * The profile a job encodes with: the payload's choice (default ENCODING_DEFAULT_PROFILE), lowered
+ * to the plan's cap when it is above it.
+ */
+export function resolveEncoding(selection: EncodingSelection | undefined, plan: string | undefined, logTag: string): ResolvedEncoding {
+    const { defaultProfile, maxProfileByPlan } = getConfig().encoding;
+    const requested = selection?.profile ?? defaultProfile;
+    const cap = (plan && maxProfileByPlan[plan]) || maxProfileByPlan.default || 'high';
+    let name = requested;
+    if (LADDER.indexOf(requested) > LADDER.indexOf(cap)) {
+        console.log(`[${logTag}] Encoding profile ${requested} is above plan ${plan ?? 'default'}'s ${cap}; using ${cap}`);
+        name = cap;
+    }
+    return {
+        ...ENCODING_PROFILES[name],
+        name,
+        hevc: selection?.hevc ?? false,
+        enforceFps: selection?.profile !== undefined || name !== requested,
+    };
+}
+
+/** Highest frame rate a video tool outputs: the profile's when `enforceFps`, else 60. */
+export function maxFps(encoding: ResolvedEncoding): number {
+    return encoding.enforceFps ? encoding.fps : 60;
+}
+
+/**
+ * Video and audio encoder arguments for an MP4 output. `preset` fills in for a profile without one;
+ * `crf` overrides the profile's (video-compress). `capFps` limits the frame rate to maxFps with
+ * `-fpsmax` for inputs whose rate is not set by the filter graph.
+ */
+export function encodingArgs(
+    encoding: ResolvedEncoding,
+    opts: { preset?: string; crf?: number; capFps?: boolean } = {},
+): string[] {
+    const crf = (opts.crf ?? encoding.crf) + (encoding.hevc ? HEVC_CRF_OFFSET : 0);
+    return [
+        ...(encoding.hevc ? ['-c:v', 'libx265', '-tag:v', 'hvc1'] : ['-c:v', 'libx264']),
+        '-preset', encoding.preset ?? opts.preset ?? 'fast',
+        '-crf', String(crf),
+        ...(encoding.maxrateKbps > 0 ? ['-maxrate', `${encoding.maxrateKbps}k`, '-bufsize', `${encoding.maxrateKbps * 2}k`] : []),
+        ...(opts.capFps ? ['-fpsmax', String(maxFps(encoding))] : []),
+        '-g', String(encoding.fps * encoding.gopSec),
+        '-pix_fmt', 'yuv420p',
+        '-c:a', 'aac',
+        '-b:a', `${encoding.audioBitrateKbps}k`,
+        '-movflags', '+faststart',
+    ];
+}
@@ -1,5 +1,6 @@
 import type { DbService } from './db.js';
 import type { MailService } from './mail.js';
+import type { MediaVariant } from './outputs.js';
 
 export interface FinalizeProjectParams {
     projectId: string;
@@ -10,105 +11,81 @@ export interface FinalizeProjectParams {
 }
 
 /**
- * Idempotent project finalization (kinetic typography): update project to completed, deduct credits.
- * Safe to call on retries.
+ * Idempotent project finalization (kinetic typography, video tools): complete the project and settle
+ * its credit hold (see credits.ts) in one transaction, so a failed deduction (e.g. INSUFFICIENT_CREDITS)
+ * leaves the project unfinished. Safe to call on retries.
  */
 export async function finalizeProjectSuccess(params: FinalizeProjectParams): Promise<void> {
-    const { projectId, resultBlobId, db, mailer } = params;
+    const { projectId, resultBlobId, db } = params;
 
-    const updated = await db.finalizeProjectOnlyIfNotCompleted(projectId, resultBlobId);
-    if (!updated) return;
-
-    const projectInfo = await db.getProjectInfo(projectId);
-    if (!projectInfo || !projectInfo.user_id) return;
-
-    const { user_id: userId, credit_cost: creditCost } = projectInfo;
-    try {
-        await db.deductCredits(
-            userId,
-            creditCost,
-            'Kinetic Typography render',
-            projectId,
-            { project_id: projectId, tool_type: 'kinetic-typography', creditCost },
-        );
-    } catch (creditErr: unknown) {
-        const msg = creditErr instanceof Error ? creditErr.message : String(creditErr);
-        console.error('[Finalize] Project credit deduction failed:', msg);
-    }
+    await db.transaction(async (tx) => {
+        const updated = await tx.finalizeProjectOnlyIfNotCompleted(projectId, resultBlobId);
+        if (!updated) {
+            console.log(`[Finalize] Project ${projectId} already finalized (idempotent)`);
+            return;
+        }
+        await tx.settleCredits(projectId);
+    });
 }
 
-const CREDIT_COSTS: Record<string, number> = {
-    '30-60': 1,
-    '60-90': 2,
-    '90-120': 3,
-    default: 1,
-};
-
 export interface FinalizeParams {
     mediaId: string;
     stepId: string;
     resultBlobId: string;
+    /** Every rendered size, primary first; set when the payload asked for `outputs`. */
+    variants?: MediaVariant[];
+    /** Master playlist of the HLS packaging (see hls.ts), when the payload asked for `hls` and it succeeded. */
+    hlsPlaylistKey?: string;
     db: DbService;
     mailer: MailService;
     storage: { getSignedUrl: (objectId: string, expiresIn?: number) => Promise<string> };
 }
 
 /**
- * Idempotent finalization: update step to success only if still processing,
- * then finalize media only if not already completed, then deduct credits and send email.
- * Safe to call on retries; avoids double-deduct or double-finalize.
+ * Idempotent finalization: in one transaction, mark the step success (only if still processing),
+ * complete the media and its project (recording its variants and HLS playlist), and settle the
+ * credit hold keyed by media id. Any failure, including INSUFFICIENT_CREDITS, rolls all of it back.
+ * The email goes out only after the commit. Safe to call on retries; avoids double-deduct or
+ * double-finalize.
  */
 export async function finalizeRenderSuccess(params: FinalizeParams): Promise<void> {
-    const { mediaId, stepId, resultBlobId, db, mailer, storage } = params;
+    const { mediaId, stepId, resultBlobId, variants, hlsPlaylistKey, db, mailer, storage } = params;
 
-    const stepUpdated = await db.updateStepStatusOnlyIfProcessing(stepId, 'success', resultBlobId);
-    if (!stepUpdated) {
-        return; // Step already finalized (e.g. previous retry completed)
-    }
+    const finalized = await db.transaction(async (tx) => {
+        const stepUpdated = await tx.updateStepStatusOnlyIfProcessing(stepId, 'success', resultBlobId);
+        if (!stepUpdated) {
+            return null; // Step already finalized (e.g. previous retry completed)
+        }
 
-    const mediaFinalized = await db.finalizeMediaOnlyIfNotCompleted(mediaId, resultBlobId);
-    if (!mediaFinalized) {
-        return; // Media already completed
-    }
+        const mediaFinalized = await tx.finalizeMediaOnlyIfNotCompleted(mediaId, resultBlobId);
+        if (!mediaFinalized) {
+            return null; // Media already completed
+        }
+        if (variants) await tx.setMediaVariants(mediaId, variants);
+        if (hlsPlaylistKey) await tx.setMediaHlsPlaylist(mediaId, hlsPlaylistKey);
 
-    await db.updateProjectOnMediaComplete(mediaId, resultBlobId);
+        await tx.updateProjectOnMediaComplete(mediaId, resultBlobId);
 
-    const mediaInfo = await db.getMediaInfo(mediaId);
-    if (!mediaInfo) return;
+        const mediaInfo = await tx.getMediaInfo(mediaId);
+        if (!mediaInfo) return null;
 
-    const userId = mediaInfo.user_id;
-    const config = mediaInfo.input_config || {};
-    const duration = config.duration || '30-60';
-    const topic = config.topic || 'Media';
-    const creditCost = (CREDIT_COSTS[duration] ?? CREDIT_COSTS.default) as number;
+        const topic = mediaInfo.input_config?.topic || 'Media';
+        await tx.settleCredits(mediaId);
+        return { email: mediaInfo.email as string | null, name: mediaInfo.name, topic };
+    });
 
-    if (mediaInfo.email) {
+    if (finalized?.email) {
         try {
             const signedUrl = await storage.getSignedUrl(resultBlobId);
             await mailer.sendRenderCompleteEmail(
-                mediaInfo.email,
+                finalized.email,
                 signedUrl,
-                topic,
-                mediaInfo.name,
+                finalized.topic,
+                finalized.name,
             );
         } catch (emailErr: unknown) {
             const msg = emailErr instanceof Error ? emailErr.message : String(emailErr);
             console.error('[Finalize] Email send failed:', msg);
         }
     }
-
-    if (userId) {
-        try {
-            await db.deductCredits(
-                userId,
-                creditCost,
-                `Media generation: ${topic}`,
-                mediaId,
-                { media_id: mediaId, topic, duration, creditCost },
-            );
-        } catch (creditErr: unknown) {
-            const msg = creditErr instanceof Error ? creditErr.message : String(creditErr);
-            console.error('[Finalize] Credit deduction failed:', msg);
-        }
-    }
 }
@@ -0,0 +1,175 @@
+import { execFile, spawn } from 'child_process';
+import { createReadStream, existsSync, mkdirSync, readdirSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { promisify } from 'util';
+import type { StorageService } from './storage.js';
+import { RenderError } from './render-errors.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * HLS packaging of a finished reel: an H.264 rendition ladder with a master playlist, uploaded under
+ * `video/hls/` next to `video/render/`. The MP4 stays the media's video; the playlist is an extra.
+ */
+
+/** Rungs by the video's short side; only those not above the source are produced. */
+const LADDER = [
+    { short: 1080, videoKbps: 5000, audioKbps: 128 },
+    { short: 720, videoKbps: 2800, audioKbps: 128 },
+    { short: 480, videoKbps: 1400, audioKbps: 96 },
+    { short: 360, videoKbps: 800, audioKbps: 64 },
+];
+const SEGMENT_SEC = 4;
+const PACKAGE_TIMEOUT_MS = 15 * 60 * 1000;
+const UPLOAD_BATCH = 8;
+const HTTP_INPUT_FLAGS = ['-reconnect', '1', '-reconnect_on_network_error', '1', '-reconnect_delay_max', '5'];
+const CONTENT_TYPES: Record<string, string> = {
+    m3u8: 'application/vnd.apple.mpegurl',
+    ts: 'video/mp2t',
+};
+
+const even = (n: number): number => Math.max(2, Math.round(n / 2) * 2);
+
+/** Storage prefix of a media's HLS files; the master playlist is `<prefix>/master.m3u8`. */
+export const hlsPrefix = (userId: string, mediaId: string): string => `users/${userId}/media/${mediaId}/video/hls`;
+
+async function probe(input: string): Promise<{ width: number; height: number; hasAudio: boolean }> {
+    const { stdout } = await execFileAsync(
+        'ffprobe',
+        ['-v', 'error', '-show_entries', 'stream=codec_type,width,height', '-of', 'json', input],
+        { encoding: 'utf8', timeout: 30000 },
+    );
+    const streams = (JSON.parse(stdout) as { streams?: { codec_type?: string; width?: number; height?: number }[] }).streams ?? [];
+    const video = streams.find((s) => s.codec_type === 'video');
+    if (!video?.width || !video.height) throw new RenderError('FFMPEG_FAILED', 'HLS input has no video stream');
+    return { width: video.width, height: video.height, hasAudio: streams.some((s) => s.codec_type === 'audio') };
+}
+
+/** ffmpeg arguments writing `<outDir>/<rung>p/playlist.m3u8` per rung and `<outDir>/master.m3u8`. */
+function hlsArgs(input: string, outDir: string, source: { width: number; height: number; hasAudio: boolean }): string[] {
+    const sourceShort = Math.min(source.width, source.height);
+    const fitting = LADDER.filter((rung) => rung.short <= sourceShort);
+    // Sources below the lowest rung get one rendition at their own size.
+    const rungs = fitting.length > 0 ? fitting : [{ ...LADDER[LADDER.length - 1]!, short: even(sourceShort) }];
+    const portrait = source.width < source.height;
+    const sizes = rungs.map(({ short }) => {
+        const long = even((short * Math.max(source.width, source.height)) / sourceShort);
+        return portrait ? `${short}:${long}` : `${long}:${short}`;
+    });
+
+    const split = `[0:v]split=${rungs.length}${rungs.map((_, i) => `[s${i}]`).join('')}`;
+    const scales = sizes.map((size, i) => `[s${i}]scale=${size},setsar=1[v${i}]`);
+    return [
+        '-y',
+        ...(/^https?:/.test(input) ? HTTP_INPUT_FLAGS : []),
+        '-i', input,
+        '-filter_complex', [split, ...scales].join(';'),
+        ...rungs.flatMap(({ videoKbps }, i) => [
+            '-map', `[v${i}]`,
+            `-b:v:${i}`, `${videoKbps}k`,
+            `-maxrate:v:${i}`, `${Math.round(videoKbps * 1.07)}k`,
+            `-bufsize:v:${i}`, `${Math.round(videoKbps * 1.5)}k`,
+        ]),
+        ...(source.hasAudio ? rungs.flatMap(({ audioKbps }, i) => ['-map', '0:a:0', `-b:a:${i}`, `${audioKbps}k`]) : []),
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-pix_fmt', 'yuv420p',
+        // Keyframes on segment boundaries in every rendition, so players can switch between them.
+        '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_SEC})`,
+        '-sc_threshold', '0',
+        ...(source.hasAudio ? ['-c:a', 'aac', '-ac', '2'] : []),
+        '-f', 'hls',
+        '-hls_time', String(SEGMENT_SEC),
+        '-hls_playlist_type', 'vod',
+        '-hls_flags', 'independent_segments',
+        '-hls_segment_filename', join(outDir, '%v', 'segment_%03d.ts'),
+        '-master_pl_name', 'master.m3u8',
+        '-var_stream_map', rungs.map(({ short }, i) => `v:${i}${source.hasAudio ? `,a:${i}` : ''},name:${short}p`).join(' '),
+        join(outDir, '%v', 'playlist.m3u8'),
+    ];
+}
+
+function runPackager(args: string[], signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'], signal, killSignal: 'SIGKILL' });
+        let stderrTail = '';
+        ffmpeg.stderr.on('data', (d) => {
+            stderrTail = (stderrTail + d.toString()).slice(-2000);
+        });
+        const timer = setTimeout(() => {
+            ffmpeg.kill('SIGKILL');
+            reject(new RenderError('TIMEOUT', `HLS packaging timeout after ${PACKAGE_TIMEOUT_MS / 60000} minutes`));
+        }, PACKAGE_TIMEOUT_MS);
+        ffmpeg.on('close', (code) => {
+            clearTimeout(timer);
+            if (signal?.aborted) reject(signal.reason);
+            else if (code === 0) resolve();
+            else reject(new RenderError('FFMPEG_FAILED', `HLS packaging exited ${code}`, { stderr: stderrTail }));
+        });
+        ffmpeg.on('error', (err) => {
+            clearTimeout(timer);
+            if (!signal?.aborted) reject(err);
+        });
+    });
+}
+
+/** Files under `dir`, as paths relative to it. */
+function listFiles(dir: string, prefix = ''): string[] {
+    return readdirSync(join(dir, prefix)).flatMap((name) => {
+        const relative = prefix ? `${prefix}/${name}` : name;
+        return statSync(join(dir, relative)).isDirectory() ? listFiles(dir, relative) : [relative];
+    });
+}
+
+export interface PackageHlsParams {
+    storage: StorageService;
+    /** The finished MP4: a local path or a signed URL. */
+    input: string;
+    userId: string;
+    mediaId: string;
+    signal?: AbortSignal;
+    logTag: string;
+}
+
+/**
+ * Packages and uploads the HLS ladder and returns the master playlist key. Packaging is best
+ * effort: a failure is logged and returns undefined so the finished MP4 is still delivered.
+ * Cancellation is rethrown.
+ */
+export async function packageMediaHls(params: PackageHlsParams): Promise<string | undefined> {
+    const { storage, input, userId, mediaId, signal, logTag } = params;
+    const workDir = join(tmpdir(), `hls-${mediaId}-${randomUUID()}`);
+    const prefix = hlsPrefix(userId, mediaId);
+    try {
+        mkdirSync(workDir, { recursive: true });
+        const source = await probe(input);
+        console.log(`[${logTag}] 📺 Packaging HLS for media ${mediaId} (${source.width}x${source.height})...`);
+        await runPackager(hlsArgs(input, workDir, source), signal);
+
+        const files = listFiles(workDir);
+        for (let i = 0; i < files.length; i += UPLOAD_BATCH) {
+            await Promise.all(files.slice(i, i + UPLOAD_BATCH).map((file) => storage.upload(
+                `${prefix}/${file}`,
+                createReadStream(join(workDir, file)),
+                CONTENT_TYPES[file.split('.').pop() ?? ''] ?? 'application/octet-stream',
+                signal,
+            )));
+            signal?.throwIfAborted();
+        }
+        console.log(`[${logTag}] 📺 Uploaded ${files.length} HLS file(s) under ${prefix}/`);
+        return `${prefix}/master.m3u8`;
+    } catch (err: unknown) {
+        if (signal?.aborted) throw err;
+        const msg = err instanceof Error ? err.message : String(err);
+        console.warn(`[${logTag}] ⚠️ HLS packaging failed for media ${mediaId}, delivering the MP4 only: ${msg}`);
+        return undefined;
+    } finally {
+        try {
+            if (existsSync(workDir)) rmSync(workDir, { recursive: true, force: true });
+        } catch (cleanupErr) {
+            console.error(`[${logTag}] ⚠️ Cleanup failed for ${workDir}:`, cleanupErr);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import { renderMetrics } from './metrics.js';
+import { runDependencyChecks } from './dependency-checks.js';
+import type { DependencyCheck } from './dependency-checks.js';
+
+export interface HttpServerOptions {
+    port: number;
+    readiness: DependencyCheck[];
+    /** While draining, /readyz reports 503 so traffic/probes stop treating the worker as available. */
+    isShuttingDown: () => boolean;
+}
+
+/** Worker-local probes: /healthz (process alive), /readyz (dependencies) and /metrics (Prometheus). */
+export function startHttpServer(options: HttpServerOptions): Server {
+    const { port, readiness, isShuttingDown } = options;
+
+    const server = createServer(async (req, res) => {
+        const path = (req.url ?? '/').split('?')[0];
+        if (req.method !== 'GET') {
+            res.writeHead(405).end();
+            return;
+        }
+
+        if (path === '/healthz') {
+            res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok\n');
+        } else if (path === '/readyz') {
+            const results = await runDependencyChecks(readiness);
+            const shuttingDown = isShuttingDown();
+            const ready = !shuttingDown && results.every((r) => r.optional || !r.error);
+            const checks = Object.fromEntries(results.map((r) => [r.name, r.error ?? 'ok']));
+            res.writeHead(ready ? 200 : 503, { 'Content-Type': 'application/json' })
+                .end(JSON.stringify({ ready, shuttingDown, checks }));
+        } else if (path === '/metrics') {
+            res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' }).end(renderMetrics());
+        } else {
+            res.writeHead(404).end();
+        }
+    });
+
+    server.on('error', (err) => {
+        console.error(`[HTTP] Server error on port ${port}:`, err.message);
+    });
+    server.listen(port, () => {
+        console.log(`[HTTP] Health and metrics on :${port} (/healthz, /readyz, /metrics)`);
+    });
+    return server;
+}
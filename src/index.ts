@@ -1,304 +1,58 @@
-import { Worker, Job } from 'bullmq';
+import type { Worker } from 'bullmq';
 import { StorageService } from './storage.js';
 import { DbService } from './db.js';
 import { VideoProcessor } from './processor.js';
 import { MailService } from './mail.js';
-import { finalizeRenderSuccess } from './finalize.js';
-import { runRemotionRender } from './remotion-render.js';
-import type { RemotionJobPayload } from './remotion-render.js';
-import { runKineticRemotionRender } from './remotion-kinetic-render.js';
-import type { KineticJobPayload } from './remotion-kinetic-render.js';
-import { runStockVideoRemotionRender } from './remotion-stock-video-render.js';
-import type { StockVideoJobPayload } from './remotion-stock-video-render.js';
-import { runVideoToolsJob } from './video-tools-processor.js';
-import type { VideoToolsJobPayload } from './video-tools-processor.js';
-import { join } from 'path';
-import { mkdirSync, rmSync, existsSync, createReadStream } from 'fs';
-import { tmpdir } from 'os';
-import 'dotenv/config';
-
-export interface RenderJobPayload {
-    mediaId: string;
-    stepId: string;
-    userId: string;
-    assets: {
-        audio: string;
-        caption: string;
-        images: string[];
-        music?: string;
-    };
-    options: {
-        preset: string;
-        rendering_hints?: Record<string, unknown>;
-    };
-    monetization?: { watermark: { enabled: boolean; type: 'text' | 'image'; value?: string } };
+import { CancellationService } from './cancellation.js';
+import { ShutdownCoordinator } from './shutdown.js';
+import { instrumentWorker } from './metrics.js';
+import { DeadLetterService } from './dead-letter.js';
+import { startHttpServer } from './http-server.js';
+import { prerequisitesFor, selectWorkers, startWorker, validatePrerequisites } from './workers/registry.js';
+import type { QueueWorkerDefinition, WorkerContext } from './workers/types.js';
+import { ConfigError, getConfig, redactConfig, redactUrl } from './config.js';
+import type { AppConfig } from './config.js';
+
+export type { RenderJobPayload } from './workers/render-worker.js';
+
+// Validate the whole environment before anything connects; a bad deploy lists every problem at once.
+let config: AppConfig;
+try {
+    config = getConfig();
+} catch (err: unknown) {
+    if (err instanceof ConfigError) {
+        console.error(`[Config] ❌ ${err.message}`);
+        process.exit(1);
+    }
+    throw err;
 }
-
-const logMemory = (stage: string) => {
-    const mem = process.memoryUsage();
-    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
-    console.log(`[Memory] ${stage} - RSS: ${toMB(mem.rss)}MB, Heap: ${toMB(mem.heapUsed)}/${toMB(mem.heapTotal)}MB`);
-};
+console.log(`[Config] ${JSON.stringify(redactConfig(config))}`);
 
 // Global services (pooled)
 const storage = new StorageService();
 const db = new DbService();
 const processor = new VideoProcessor();
 const mailer = new MailService();
+const cancellations = new CancellationService(config.redis.url);
+// Deploys send SIGTERM: active jobs get this long to finish before they are aborted and requeued.
+const shutdown = new ShutdownCoordinator(config.shutdown.deadlineMs);
+// Jobs that fail for good are copied here for inspection and replay (scripts/dead-letter.ts).
+const deadLetters = new DeadLetterService(config.redis.url);
+
+const ctx: WorkerContext = { storage, db, processor, mailer, cancellations, shutdown };
+
+// Which queues this process consumes (--queues / WORKER_QUEUES), e.g. `ffmpeg` on VMs, `remotion` elsewhere.
+let definitions: QueueWorkerDefinition[];
+try {
+    definitions = selectWorkers();
+} catch (err: unknown) {
+    console.error(`[Registry] ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+}
+console.log(`[Registry] Queues: ${definitions.map((d) => d.queue).join(', ')}`);
 
-const worker = new Worker('render-tasks', async (job: Job<RenderJobPayload>) => {
-    const { mediaId, stepId, userId, assets, options } = job.data;
-    const workDir = join(tmpdir(), `render-${job.id}`);
-
-    console.log(`[Worker] 🚀 Starting job ${job.id} for media ${mediaId} (User: ${userId})`);
-    logMemory('Job Start');
-
-    try {
-        if (!existsSync(workDir)) {
-            mkdirSync(workDir, { recursive: true });
-        }
-
-        // 1. Download Assets
-        console.log(`[Worker] [${job.id}] 📥 Downloading assets to ${workDir}...`);
-        const audioPath = join(workDir, 'audio.mp3');
-        const captionExt = assets.caption.endsWith('.ass') ? 'ass' : assets.caption.endsWith('.json') ? 'json' : 'srt';
-        const captionPath = join(workDir, `captions.${captionExt}`);
-        const imagePaths = assets.images.map((_, i) => join(workDir, `image_${i}.jpg`));
-        const musicPath = assets.music ? join(workDir, 'music.mp3') : undefined;
-
-        await Promise.all([
-            storage.downloadToFile(assets.audio, audioPath),
-            storage.downloadToFile(assets.caption, captionPath),
-            ...assets.images.map((id, i) => storage.downloadToFile(id, imagePaths[i]!)),
-            ...(assets.music && musicPath ? [storage.downloadToFile(assets.music, musicPath)] : [])
-        ]);
-        console.log(`[Worker] [${job.id}] ✅ Assets downloaded.`);
-        logMemory('Post-Download');
-
-        // 2. Process Video
-        console.log(`[Worker] [${job.id}] 🎬 Processing video with FFmpeg (preset: ${options.preset})...`);
-        const outputPath = join(workDir, 'output.mp4');
-        await processor.process({
-            assetPaths: imagePaths,
-            audioPath,
-            captionPath,
-            preset: options.preset,
-            rendering_hints: options.rendering_hints,
-            outputPath,
-            musicPath,
-            musicVolume: typeof options.rendering_hints?.musicVolume === 'number' ? options.rendering_hints.musicVolume : undefined,
-            watermark: job.data.monetization?.watermark,
-        });
-        console.log(`[Worker] [${job.id}] ✅ Video processed successfully.`);
-        logMemory('Post-Process');
-
-        // 3. Upload Result
-        console.log(`[Worker] [${job.id}] 📤 Uploading final video...`);
-        const resultBlobId = `users/${userId}/media/${mediaId}/video/render/final_render.mp4`;
-        await storage.upload(resultBlobId, createReadStream(outputPath));
-
-        // 4 & 5. Idempotent finalization (step, media, credits, email)
-        console.log(`[Worker] [${job.id}] 💾 Finalizing (idempotent)...`);
-        await finalizeRenderSuccess({
-            mediaId,
-            stepId,
-            resultBlobId,
-            db,
-            mailer,
-            storage: { getSignedUrl: (id, exp) => storage.getSignedUrl(id, exp) },
-        });
-
-        console.log(`[Worker] ✨ Job ${job.id} completed successfully!`);
-    } catch (error: any) {
-        console.error(`[Worker] ❌ Job ${job.id} failed:`, error.message);
-        console.error(error.stack);
-        try {
-            await db.updateStepStatus(stepId, 'failed', undefined, error.message);
-        } catch (dbErr) {
-            console.error(`[Worker] 💀 Critical: Failed to update error status in DB:`, dbErr);
-        }
-        throw error;
-    } finally {
-        try {
-            if (existsSync(workDir)) {
-                rmSync(workDir, { recursive: true, force: true });
-            }
-        } catch (cleanupErr) {
-            console.error(`[Worker] ⚠️ Cleanup failed for ${workDir}:`, cleanupErr);
-        }
-        logMemory('Job Cleanup');
-    }
-}, {
-    connection: {
-        url: process.env.REDIS_URL as string,
-    },
-    concurrency: parseInt(process.env.FFMPEG_WORKER_CONCURRENCY ?? '2', 10) || 2,
-});
-
-const remotionWorker = new Worker<RemotionJobPayload>(
-    'remotion-render-tasks',
-    async (job: Job<RemotionJobPayload>) => {
-        const { mediaId, stepId, userId, assets, options } = job.data;
-        console.log(`[Remotion] 🚀 Starting job ${job.id} for media ${mediaId} (User: ${userId})`);
-        try {
-            await runRemotionRender({
-                payload: job.data,
-                storage,
-                db,
-                mailer,
-            });
-            console.log(`[Remotion] ✨ Job ${job.id} completed successfully!`);
-        } catch (error: unknown) {
-            const msg = error instanceof Error ? error.message : String(error);
-            console.error(`[Remotion] ❌ Job ${job.id} failed:`, msg);
-            try {
-                await db.updateStepStatus(stepId, 'failed', undefined, msg);
-            } catch (dbErr) {
-                console.error(`[Remotion] Failed to update step status:`, dbErr);
-            }
-            throw error;
-        }
-    },
-    {
-        connection: {
-            url: process.env.REDIS_URL as string,
-        },
-        concurrency: parseInt(process.env.REMOTION_WORKER_CONCURRENCY ?? '1', 10) || 1,
-    },
-);
-
-worker.on('ready', () => {
-    const redisUrl = process.env.REDIS_URL || 'unknown';
-    const obfuscatedUrl = redisUrl.replace(/:[^:@]*@/, ':****@');
-    console.log(`🚀 Render Worker is ready and waiting for jobs on ${obfuscatedUrl}`);
-});
-
-worker.on('failed', (job, err) => {
-    console.error(`[Queue] render-tasks job ${job?.id} failed globally: ${err.message}`);
-});
-
-remotionWorker.on('ready', () => {
-    console.log(`[Remotion] Worker ready for remotion-render-tasks`);
-});
-
-remotionWorker.on('failed', (job, err) => {
-    console.error(`[Queue] remotion-render-tasks job ${job?.id} failed globally: ${err.message}`);
-});
-
-const kineticWorker = new Worker<KineticJobPayload>(
-    'remotion-kinetic-typography-tasks',
-    async (job: Job<KineticJobPayload>) => {
-        const { projectId, userId } = job.data;
-        console.log(`[Kinetic] 🚀 Starting job ${job.id} for project ${projectId} (User: ${userId})`);
-        try {
-            await runKineticRemotionRender({
-                payload: job.data,
-                storage,
-                db,
-                mailer,
-            });
-            console.log(`[Kinetic] ✨ Job ${job.id} completed successfully!`);
-        } catch (error: unknown) {
-            const msg = error instanceof Error ? error.message : String(error);
-            console.error(`[Kinetic] ❌ Job ${job.id} failed:`, msg);
-            try {
-                await db.updateProjectStatus(projectId, 'failed', msg);
-            } catch (dbErr) {
-                console.error(`[Kinetic] Failed to update project status:`, dbErr);
-            }
-            throw error;
-        }
-    },
-    {
-        connection: {
-            url: process.env.REDIS_URL as string,
-        },
-        concurrency: parseInt(process.env.REMOTION_KINETIC_WORKER_CONCURRENCY ?? '1', 10) || 1,
-    },
-);
-
-kineticWorker.on('ready', () => {
-    console.log(`[Kinetic] Worker ready for remotion-kinetic-typography-tasks`);
-});
-
-kineticWorker.on('failed', (job, err) => {
-    console.error(`[Queue] remotion-kinetic-typography-tasks job ${job?.id} failed globally: ${err.message}`);
-});
-
-const videoToolsWorker = new Worker<VideoToolsJobPayload>(
-    'video-tools-tasks',
-    async (job: Job<VideoToolsJobPayload>) => {
-        const { projectId, userId, toolType } = job.data;
-        console.log(`[VideoTools] 🚀 Starting job ${job.id} for project ${projectId} (${toolType}, User: ${userId})`);
-        try {
-            await runVideoToolsJob(job.data, storage, db);
-            console.log(`[VideoTools] ✨ Job ${job.id} completed successfully!`);
-        } catch (error: unknown) {
-            const msg = error instanceof Error ? error.message : String(error);
-            console.error(`[VideoTools] ❌ Job ${job.id} failed:`, msg);
-            try {
-                await db.updateProjectStatus(projectId, 'failed', msg);
-            } catch (dbErr) {
-                console.error(`[VideoTools] Failed to update project status:`, dbErr);
-            }
-            throw error;
-        }
-    },
-    {
-        connection: {
-            url: process.env.REDIS_URL as string,
-        },
-        concurrency: parseInt(process.env.VIDEO_TOOLS_WORKER_CONCURRENCY ?? '2', 10) || 2,
-    },
-);
-
-videoToolsWorker.on('ready', () => {
-    console.log(`[VideoTools] Worker ready for video-tools-tasks`);
-});
-
-videoToolsWorker.on('failed', (job, err) => {
-    console.error(`[Queue] video-tools-tasks job ${job?.id} failed globally: ${err.message}`);
-});
-
-const stockVideoWorker = new Worker<StockVideoJobPayload>(
-    'stock-video-render-tasks',
-    async (job: Job<StockVideoJobPayload>) => {
-        const { mediaId, stepId } = job.data;
-        console.log(`[StockVideo] 🚀 Starting job ${job.id} for media ${mediaId}`);
-        try {
-            await runStockVideoRemotionRender({
-                payload: job.data,
-                storage,
-                db,
-                mailer,
-            });
-            console.log(`[StockVideo] ✨ Job ${job.id} completed successfully!`);
-        } catch (error: unknown) {
-            const msg = error instanceof Error ? error.message : String(error);
-            console.error(`[StockVideo] ❌ Job ${job.id} failed:`, msg);
-            try {
-                await db.updateStepStatus(stepId, 'failed', undefined, msg);
-            } catch (dbErr) {
-                console.error(`[StockVideo] Failed to update step status:`, dbErr);
-            }
-            throw error;
-        }
-    },
-    {
-        connection: {
-            url: process.env.REDIS_URL as string,
-        },
-        concurrency: parseInt(process.env.STOCK_VIDEO_WORKER_CONCURRENCY ?? '1', 10) || 1,
-    },
-);
-
-stockVideoWorker.on('ready', () => {
-    console.log(`[StockVideo] Worker ready for stock-video-render-tasks`);
-});
-
-stockVideoWorker.on('failed', (job, err) => {
-    console.error(`[Queue] stock-video-render-tasks job ${job?.id} failed globally: ${err.message}`);
-});
+const workers: Worker[] = [];
+let workersStarted = false;
 
 // Initialize DB connection
 db.connect().then(() => {
@@ -311,15 +65,16 @@ db.connect().then(() => {
 // Periodic Health Check Ping to Backend (worker uses DB directly; this is for monitoring only)
 // 503 = backend unreachable (e.g. not running locally, or Render service sleeping/overloaded).
 const API_BASE_URL =
-    process.env.API_BASE_URL ||
-    (process.env.NODE_ENV === 'development' ? 'http://localhost:3000' : 'https://ai-gen-reels-backend.onrender.com');
+    config.healthCheck.apiBaseUrl ??
+    (config.nodeEnv === 'development' ? 'http://localhost:3000' : 'https://ai-gen-reels-backend.onrender.com');
 
-const HEALTH_CHECK_ENABLED = process.env.HEALTH_CHECK_ENABLED === 'true';
+const HEALTH_CHECK_ENABLED = config.healthCheck.enabled;
 let healthCheckFailCount = 0;
+let healthCheckTimer: NodeJS.Timeout | undefined;
 
 if (HEALTH_CHECK_ENABLED) {
     console.log(`[Health] Pinging backend every 5s: ${API_BASE_URL}/health`);
-    setInterval(async () => {
+    healthCheckTimer = setInterval(async () => {
         try {
             const response = await fetch(`${API_BASE_URL}/health`, {
                 signal: AbortSignal.timeout(10000),
@@ -349,3 +104,56 @@ if (HEALTH_CHECK_ENABLED) {
         }
     }, 5000);
 }
+
+// Probes for the worker itself (the backend ping above only tells us the backend is up).
+const httpServer = startHttpServer({
+    port: config.http.port,
+    isShuttingDown: () => shutdown.draining,
+    readiness: [
+        {
+            // Not ready until prerequisites passed and every selected queue has a consumer.
+            name: 'workers',
+            check: async () => {
+                if (!workersStarted) throw new Error('workers not started');
+            },
+        },
+        {
+            name: 'redis',
+            check: async () => {
+                await Promise.all(workers.map(async (w) => {
+                    await (await w.client).ping();
+                }));
+            },
+        },
+        { name: 'database', check: () => db.connect() },
+        ...prerequisitesFor(definitions),
+    ],
+});
+
+// Graceful shutdown: drain the workers, then release Redis and the DB pool.
+shutdown.onShutdown('Health check', () => clearInterval(healthCheckTimer));
+shutdown.onShutdown('Cancellation Redis', () => cancellations.disconnect());
+shutdown.onShutdown('Dead-letter queue', () => deadLetters.close());
+shutdown.onShutdown('Database pool', () => db.disconnect());
+shutdown.onShutdown('HTTP server', () => new Promise<void>((resolve) => httpServer.close(() => resolve())));
+shutdown.install();
+
+// Only start consuming once every selected queue has what it needs.
+validatePrerequisites(definitions).then((ok) => {
+    if (!ok) {
+        console.error('[Registry] Missing prerequisites for the selected queues, exiting');
+        process.exit(1);
+    }
+    for (const definition of definitions) {
+        const worker = startWorker(definition, ctx);
+        instrumentWorker(worker);
+        deadLetters.watch(worker);
+        shutdown.addWorker(worker);
+        workers.push(worker);
+    }
+    workersStarted = true;
+    console.log(`🚀 Render Worker is ready and waiting for jobs on ${redactUrl(config.redis.url)}`);
+}).catch((err) => {
+    console.error('[Registry] Failed to start workers, exiting:', err);
+    process.exit(1);
+});
@@ -0,0 +1,237 @@
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { createReadStream, existsSync, rmSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { StorageService } from './storage.js';
+import { logMemory } from './memory.js';
+import { RenderError } from './render-errors.js';
+import type { ProgressCallback } from './progress.js';
+import {
+    createRemotionRenderer,
+    DEFAULT_POLL_INTERVAL_MS,
+    DEFAULT_RENDER_TIMEOUT_MS,
+} from './remotion-renderer.js';
+import type { RemotionRenderer, RemotionRenderOutput, RendererEvent } from './remotion-renderer.js';
+
+export interface DownloadRetryPolicy {
+    /** Total download attempts for the rendered file (first try included). */
+    attempts: number;
+    delayMs: number;
+    /** HTTP statuses worth retrying; S3 returns 404 briefly after the render is written. */
+    retryOnStatus: number[];
+}
+
+export const DEFAULT_DOWNLOAD_RETRY: DownloadRetryPolicy = {
+    attempts: 3,
+    delayMs: 2000,
+    retryOnStatus: [404],
+};
+
+/** How the output reached app storage: S3 server-side copy, streamed HTTP download, or local file. */
+export type UploadMethod = 'copy' | 'stream' | 'file';
+
+/** Structured lifecycle of one Remotion job, from invoke to finalize. */
+export type RenderJobEvent =
+    | RendererEvent
+    | { type: 'rendered'; output: RemotionRenderOutput['type'] }
+    | { type: 'download-retry'; attempt: number; status: number }
+    | { type: 'uploaded'; resultBlobId: string; via: UploadMethod }
+    | { type: 'finalized'; resultBlobId: string };
+
+export interface LambdaRenderRunnerOptions {
+    pollIntervalMs?: number;
+    timeoutMs?: number;
+    downloadRetry?: Partial<DownloadRetryPolicy>;
+    /** Defaults to the backend chosen by REMOTION_RENDERER. */
+    renderer?: RemotionRenderer;
+    /** Try an S3 server-side copy from the Remotion bucket before streaming. Default: on when app storage is S3. */
+    serverSideCopy?: boolean;
+    onEvent?: (event: RenderJobEvent) => void;
+    /** Render progress 0–1 (Lambda overallProgress / local renderMedia progress), forwarded from `progress` events. */
+    onProgress?: ProgressCallback;
+    /** Job cancellation: stops the render and skips upload/finalize (so no credits are deducted). */
+    signal?: AbortSignal;
+}
+
+/** One more size of the same render (multi-output reels); rendered after the primary output. */
+export interface LambdaRenderVariant {
+    inputProps: Record<string, unknown>;
+    outName: string;
+    outputKey: string;
+}
+
+export interface LambdaRenderJob {
+    composition: string;
+    inputProps: Record<string, unknown>;
+    /** File name in the Remotion bucket, e.g. `render-<mediaId>.mp4`. */
+    outName: string;
+    /** Destination key in app storage. */
+    outputKey: string;
+    /** Log prefix of the job type, e.g. `[Kinetic]`. */
+    logTag: string;
+    variants?: LambdaRenderVariant[];
+    /** Idempotent DB finalization, run once every output is uploaded. */
+    finalize: (resultBlobId: string) => Promise<void>;
+}
+
+/**
+ * Shared invoke → poll → download → upload → finalize loop for every Remotion job type.
+ * Job modules only build input props and pick the output key; everything else lives here.
+ */
+export class LambdaRenderRunner {
+    private readonly renderer: RemotionRenderer;
+    private readonly pollIntervalMs: number;
+    private readonly timeoutMs: number;
+    private readonly downloadRetry: DownloadRetryPolicy;
+    private readonly serverSideCopy: boolean;
+    private readonly onEvent?: (event: RenderJobEvent) => void;
+    private readonly onProgress?: ProgressCallback;
+    private readonly signal?: AbortSignal;
+
+    constructor(private readonly storage: StorageService, options: LambdaRenderRunnerOptions = {}) {
+        this.renderer = options.renderer ?? createRemotionRenderer();
+        this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_RENDER_TIMEOUT_MS;
+        this.downloadRetry = { ...DEFAULT_DOWNLOAD_RETRY, ...options.downloadRetry };
+        this.serverSideCopy = options.serverSideCopy ?? storage.backend === 's3';
+        this.onEvent = options.onEvent;
+        this.onProgress = options.onProgress;
+        this.signal = options.signal;
+    }
+
+    get rendererKind() {
+        return this.renderer.kind;
+    }
+
+    async run(job: LambdaRenderJob): Promise<string> {
+        const { composition, logTag, outputKey, finalize } = job;
+        const renders: LambdaRenderVariant[] = [job, ...(job.variants ?? [])];
+        for (const [i, { inputProps, outName, outputKey: key }] of renders.entries()) {
+            // One log cadence for all job types: the first poll plus every progress decile.
+            let lastLoggedDecile = -1;
+            const emit = (event: RenderJobEvent) => {
+                if (event.type === 'progress') {
+                    const decile = Math.floor(event.progress * 10);
+                    if (event.poll === 1 || decile !== lastLoggedDecile) {
+                        lastLoggedDecile = decile;
+                        this.logEvent(logTag, event);
+                    }
+                    // Each output is an equal share of the job.
+                    this.onProgress?.((i + event.progress) / renders.length);
+                } else {
+                    this.logEvent(logTag, event);
+                }
+                this.onEvent?.(event);
+            };
+
+            if (renders.length > 1) console.log(`${logTag} Output ${i + 1}/${renders.length}: ${key}`);
+            const output = await this.renderer.render({
+                composition,
+                inputProps,
+                outName,
+                logTag,
+                timeoutMs: this.timeoutMs,
+                pollIntervalMs: this.pollIntervalMs,
+                onEvent: emit,
+                signal: this.signal,
+            });
+            emit({ type: 'rendered', output: output.type });
+            this.discardIfCancelled(output);
+
+            logMemory(`${logTag} Pre-Upload`);
+            const via = await this.upload(output, key, logTag, emit);
+            logMemory(`${logTag} Post-Upload`);
+            emit({ type: 'uploaded', resultBlobId: key, via });
+            this.signal?.throwIfAborted();
+        }
+
+        await finalize(outputKey);
+        this.onEvent?.({ type: 'finalized', resultBlobId: outputKey });
+        return outputKey;
+    }
+
+    /** Throws the cancellation reason, removing a local output file first. */
+    private discardIfCancelled(output: RemotionRenderOutput): void {
+        if (!this.signal?.aborted) return;
+        if (output.type === 'file') {
+            const dir = dirname(output.path);
+            if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+        }
+        throw this.signal.reason;
+    }
+
+    /** Never buffers the whole MP4: copies server-side when possible, otherwise pipes the body into storage. */
+    private async upload(
+        output: RemotionRenderOutput,
+        resultBlobId: string,
+        logTag: string,
+        emit: (event: RenderJobEvent) => void,
+    ): Promise<UploadMethod> {
+        if (output.type === 'file') {
+            try {
+                await this.storage.upload(resultBlobId, createReadStream(output.path), undefined, this.signal);
+            } finally {
+                const dir = dirname(output.path);
+                if (existsSync(dir)) rmSync(dir, { recursive: true, force: true });
+            }
+            return 'file';
+        }
+
+        if (this.serverSideCopy) {
+            try {
+                await this.storage.copyFrom(output.bucketName, output.objectKey, resultBlobId);
+                return 'copy';
+            } catch (err: unknown) {
+                const msg = err instanceof Error ? err.message : String(err);
+                console.warn(`${logTag} Server-side copy from ${output.bucketName} failed (${msg}), streaming download instead`);
+            }
+        }
+
+        const { attempts, delayMs, retryOnStatus } = this.downloadRetry;
+        let response: Response | null = null;
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            response = await fetch(output.url, { signal: this.signal });
+            if (response.ok) break;
+            await response.body?.cancel();
+            if (retryOnStatus.includes(response.status) && attempt < attempts) {
+                emit({ type: 'download-retry', attempt, status: response.status });
+                await new Promise((r) => setTimeout(r, delayMs));
+            } else {
+                break;
+            }
+        }
+        if (!response || !response.ok || !response.body) {
+            throw new RenderError(
+                'STORAGE_DOWNLOAD_FAILED',
+                `Failed to download render: ${response?.status ?? 'unknown'}. ` +
+                `Ensure your AWS user has s3:GetObject on the Remotion bucket (${output.bucketName}).`
+            );
+        }
+        // storage.upload destroys the stream on failure, which also aborts the underlying fetch; a
+        // cancel aborts both the fetch and the multipart upload.
+        await this.storage.upload(resultBlobId, Readable.fromWeb(response.body as WebReadableStream<Uint8Array>), undefined, this.signal);
+        return 'stream';
+    }
+
+    private logEvent(logTag: string, event: RenderJobEvent): void {
+        switch (event.type) {
+            case 'started':
+                console.log(`${logTag} Render started on ${event.renderer}${event.renderId ? ` renderId=${event.renderId}` : ''}`);
+                break;
+            case 'progress':
+                console.log(`${logTag} ${event.poll ? `Poll #${event.poll} ` : ''}progress=${Math.round(event.progress * 100)}%`);
+                break;
+            case 'rendered':
+                console.log(`${logTag} Render done, uploading ${event.output === 'url' ? 'Lambda output' : 'local file'} to storage...`);
+                break;
+            case 'download-retry':
+                console.warn(`${logTag} Download attempt ${event.attempt} got ${event.status}, retrying in ${this.downloadRetry.delayMs / 1000}s...`);
+                break;
+            case 'uploaded':
+                console.log(`${logTag} Uploaded ${event.resultBlobId} (${event.via}), finalizing...`);
+                break;
+            case 'finalized':
+                break;
+        }
+    }
+}
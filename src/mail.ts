@@ -3,15 +3,15 @@ import { render } from '@react-email/render';
 import * as React from 'react';
 import VerificationEmail from './templates/verification.js';
 import RenderCompleteEmail from './templates/render-complete.js';
-import 'dotenv/config';
+import { getConfig } from './config.js';
 
 export class MailService {
     private resend?: Resend;
     private fromEmail: string;
 
     constructor() {
-        const apiKey = process.env.RESEND_API_KEY;
-        this.fromEmail = process.env.SMTP_FROM || 'AI Reels <onboarding@resend.dev>';
+        const { resendApiKey: apiKey, from } = getConfig().mail;
+        this.fromEmail = from;
 
         if (!apiKey) {
             console.error('[MailService] ❌ RESEND_API_KEY is not defined');
@@ -24,7 +24,7 @@ export class MailService {
     async sendVerificationEmail(email: string, token: string, name?: string) {
         if (!this.resend) return;
 
-        const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3001';
+        const frontendUrl = getConfig().mail.frontendUrl;
         const verificationUrl = `${frontendUrl}/verify-email?token=${token}&email=${encodeURIComponent(email)}`;
 
         try {
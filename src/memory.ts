@@ -0,0 +1,24 @@
+export interface MemorySnapshot {
+    rssBytes: number;
+    /** Process peak RSS (maxRSS) since start. */
+    peakRssBytes: number;
+    heapUsedBytes: number;
+    heapTotalBytes: number;
+}
+
+export const readMemory = (): MemorySnapshot => {
+    const mem = process.memoryUsage();
+    return {
+        rssBytes: mem.rss,
+        peakRssBytes: process.resourceUsage().maxRSS * 1024, // maxRSS is in kilobytes
+        heapUsedBytes: mem.heapUsed,
+        heapTotalBytes: mem.heapTotal,
+    };
+};
+
+/** Log current RSS/heap plus the process peak RSS (maxRSS), so buffering regressions show up in job logs. */
+export const logMemory = (stage: string) => {
+    const mem = readMemory();
+    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
+    console.log(`[Memory] ${stage} - RSS: ${toMB(mem.rssBytes)}MB (peak ${toMB(mem.peakRssBytes)}MB), Heap: ${toMB(mem.heapUsedBytes)}/${toMB(mem.heapTotalBytes)}MB`);
+};
@@ -0,0 +1,148 @@
+import type { Job, Worker } from 'bullmq';
+import { readMemory } from './memory.js';
+
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS_SECONDS = [5, 15, 30, 60, 120, 300, 600, 1200, 1800];
+
+function labelKey(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    const escape = (v: string) => v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `{${entries.map(([k, v]) => `${k}="${escape(v)}"`).join(',')}}`;
+}
+
+interface Metric {
+    render(): string[];
+}
+
+class Counter implements Metric {
+    private readonly values = new Map<string, number>();
+
+    constructor(readonly name: string, readonly help: string) {}
+
+    inc(labels: Labels = {}, by = 1): void {
+        const key = labelKey(labels);
+        this.values.set(key, (this.values.get(key) ?? 0) + by);
+    }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} counter`,
+            ...[...this.values].map(([key, v]) => `${this.name}${key} ${v}`),
+        ];
+    }
+}
+
+/** Gauge whose value is read at scrape time. */
+class Gauge implements Metric {
+    constructor(readonly name: string, readonly help: string, private readonly collect: () => Array<[Labels, number]>) {}
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} gauge`,
+            ...this.collect().map(([labels, v]) => `${this.name}${labelKey(labels)} ${v}`),
+        ];
+    }
+}
+
+class Histogram implements Metric {
+    private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        let s = this.series.get(key);
+        if (!s) {
+            s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, s);
+        }
+        this.buckets.forEach((le, i) => {
+            if (value <= le) s.counts[i]! += 1;
+        });
+        s.sum += value;
+        s.count += 1;
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const s of this.series.values()) {
+            this.buckets.forEach((le, i) => {
+                lines.push(`${this.name}_bucket${labelKey({ ...s.labels, le: String(le) })} ${s.counts[i]}`);
+            });
+            lines.push(`${this.name}_bucket${labelKey({ ...s.labels, le: '+Inf' })} ${s.count}`);
+            lines.push(`${this.name}_sum${labelKey(s.labels)} ${s.sum}`);
+            lines.push(`${this.name}_count${labelKey(s.labels)} ${s.count}`);
+        }
+        return lines;
+    }
+}
+
+/** Job ids currently running in this process, per queue. */
+const activeJobs = new Map<string, Set<string>>();
+
+const jobsCompleted = new Counter('render_worker_jobs_completed_total', 'Jobs completed by this process.');
+const jobsFailed = new Counter('render_worker_jobs_failed_total', 'Jobs failed by this process (each failed attempt counts).');
+const jobDuration = new Histogram(
+    'render_worker_job_duration_seconds',
+    'Time from a job becoming active to completing or failing.',
+    DURATION_BUCKETS_SECONDS,
+);
+const lambdaPolls = new Counter('render_worker_lambda_polls_total', 'Remotion Lambda getRenderProgress calls.');
+
+const registry: Metric[] = [
+    new Gauge('render_worker_jobs_active', 'Jobs currently running in this process.', () =>
+        [...activeJobs].map(([queue, ids]) => [{ queue }, ids.size]),
+    ),
+    jobsCompleted,
+    jobsFailed,
+    jobDuration,
+    lambdaPolls,
+    new Gauge('render_worker_memory_bytes', 'Process memory, as logged by logMemory.', () => {
+        const mem = readMemory();
+        return [
+            [{ type: 'rss' }, mem.rssBytes],
+            [{ type: 'peak_rss' }, mem.peakRssBytes],
+            [{ type: 'heap_used' }, mem.heapUsedBytes],
+            [{ type: 'heap_total' }, mem.heapTotalBytes],
+        ];
+    }),
+];
+
+/** Record per-queue active/completed/failed counts and durations from the worker's events. */
+export function instrumentWorker(worker: Worker): void {
+    const queue = worker.name;
+    const active = new Set<string>();
+    activeJobs.set(queue, active);
+
+    const finish = (job: Job, status: 'completed' | 'failed') => {
+        if (job.id) active.delete(job.id);
+        if (job.processedOn) {
+            jobDuration.observe({ queue, status }, (Date.now() - job.processedOn) / 1000);
+        }
+    };
+
+    worker.on('active', (job) => {
+        if (job.id) active.add(job.id);
+    });
+    worker.on('completed', (job) => {
+        jobsCompleted.inc({ queue });
+        finish(job, 'completed');
+    });
+    worker.on('failed', (job) => {
+        jobsFailed.inc({ queue });
+        if (job) finish(job, 'failed');
+    });
+}
+
+export function recordLambdaPoll(composition: string): void {
+    lambdaPolls.inc({ composition });
+}
+
+/** Prometheus text exposition (version 0.0.4). */
+export function renderMetrics(): string {
+    return registry.flatMap((m) => m.render()).join('\n') + '\n';
+}
@@ -0,0 +1,96 @@
+import { createReadStream } from 'fs';
+import { join } from 'path';
+import type { StorageService } from './storage.js';
+import type { LambdaRenderVariant } from './lambda-render-runner.js';
+import type { RenderOptions, VideoProcessor } from './processor.js';
+import type { ProgressCallback } from './progress.js';
+
+/** Aspect ratios a reel can be rendered in besides its own (`outputs` on the media payloads). */
+export const OUTPUT_ASPECTS = {
+    '9:16': { width: 720, height: 1280 },
+    '4:5': { width: 720, height: 900 },
+    '1:1': { width: 720, height: 720 },
+    '16:9': { width: 1280, height: 720 },
+} as const;
+
+export type OutputAspect = keyof typeof OUTPUT_ASPECTS;
+
+/** One requested output; `width` scales the aspect's default size (720 on the short side). */
+export interface OutputSpec {
+    aspect: OutputAspect;
+    width?: number;
+}
+
+/** A rendered size of a media, as recorded in `media.output_variants`. */
+export interface MediaVariant {
+    aspect: string;
+    width: number;
+    height: number;
+    blobId: string;
+}
+
+const even = (n: number): number => Math.max(2, Math.round(n / 2) * 2);
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * The sizes a media job renders, primary first. Without `outputs` that is the one `rendering_hints`
+ * size. The primary keeps `final_render.mp4` (the media's video); the others are stored next to it
+ * named by aspect ratio, not pixel size: `final_render_<aspect>.mp4`, e.g. `final_render_16x9.mp4`.
+ */
+export function resolveOutputs(
+    outputs: OutputSpec[] | undefined,
+    hints: { width?: number; height?: number } | undefined,
+    userId: string,
+    mediaId: string,
+): MediaVariant[] {
+    const dir = `users/${userId}/media/${mediaId}/video/render`;
+    if (!outputs || outputs.length === 0) {
+        const width = hints?.width ?? 720;
+        const height = hints?.height ?? 1280;
+        const divisor = gcd(width, height);
+        return [{ aspect: `${width / divisor}:${height / divisor}`, width, height, blobId: `${dir}/final_render.mp4` }];
+    }
+    return outputs.map(({ aspect, width }, i) => {
+        const base = OUTPUT_ASPECTS[aspect];
+        // Neither side may exceed 4096.
+        const scale = width ? Math.min(width / base.width, 4096 / Math.max(base.width, base.height)) : 1;
+        const size = { width: even(base.width * scale), height: even(base.height * scale) };
+        const fileName = i === 0 ? 'final_render.mp4' : `final_render_${aspect.replace(':', 'x')}.mp4`;
+        return { aspect, ...size, blobId: `${dir}/${fileName}` };
+    });
+}
+
+/**
+ * Renders and uploads every variant with the FFmpeg pipeline, one after another; progress is split
+ * evenly between them. Returns the local output paths (in `workDir`), in variant order.
+ */
+export async function renderFfmpegVariants(
+    processor: VideoProcessor,
+    storage: StorageService,
+    variants: MediaVariant[],
+    workDir: string,
+    options: Omit<RenderOptions, 'outputPath' | 'width' | 'height'>,
+    logTag: string,
+): Promise<string[]> {
+    const { signal, onProgress } = options;
+    const outputPaths: string[] = [];
+    for (const [i, variant] of variants.entries()) {
+        const outputPath = join(workDir, `output-${i}.mp4`);
+        const partProgress: ProgressCallback | undefined = onProgress && ((f) => onProgress((i + f) / variants.length));
+        if (variants.length > 1) console.log(`[${logTag}] 🎬 Output ${i + 1}/${variants.length}: ${variant.aspect} ${variant.width}x${variant.height}`);
+        await processor.process({ ...options, outputPath, width: variant.width, height: variant.height, onProgress: partProgress });
+        await storage.upload(variant.blobId, createReadStream(outputPath));
+        signal?.throwIfAborted();
+        outputPaths.push(outputPath);
+    }
+    return outputPaths;
+}
+
+/** Remotion renders of the variants after the primary: the same props at each size. */
+export function remotionVariants(variants: MediaVariant[], inputProps: Record<string, unknown>, outName: string): LambdaRenderVariant[] {
+    return variants.slice(1).map((variant) => ({
+        inputProps: { ...inputProps, width: variant.width, height: variant.height },
+        outName: outName.replace(/\.mp4$/, `-${variant.width}x${variant.height}.mp4`),
+        outputKey: variant.blobId,
+    }));
+}
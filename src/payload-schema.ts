@@ -0,0 +1,543 @@
+import { RenderError } from './render-errors.js';
+import type { RenderJobPayload } from './workers/render-worker.js';
+import type { RemotionJobPayload, WatermarkConfig } from './remotion-render.js';
+import type { KineticJobPayload } from './remotion-kinetic-render.js';
+import type { StockVideoJobPayload } from './remotion-stock-video-render.js';
+import { CONVERT_FORMATS, MULTI_INPUT_TOOLS } from './video-tools-processor.js';
+import type {
+    VideoToolsJobPayload,
+    VideoResizeOptions,
+    VideoCompressOptions,
+    VideoTrimOptions,
+    VideoConcatOptions,
+    VideoConvertOptions,
+    ConvertFormat,
+    VideoCaptionsOptions,
+    VideoReframeOptions,
+    VideoJumpcutOptions,
+    VideoAudioOptions,
+    TimeRange,
+} from './video-tools-processor.js';
+import type { CaptionsHints, RenderingHints } from './processor.js';
+import { OUTPUT_ASPECTS } from './outputs.js';
+import type { OutputAspect, OutputSpec } from './outputs.js';
+import { ENCODING_PROFILES } from './encoding-profiles.js';
+import type { EncodingProfileName, EncodingSelection } from './encoding-profiles.js';
+
+/**
+ * Version of the job payload contract shared with the backend (`npm run payload-schema`).
+ * Bump on breaking changes; jobs may send `schemaVersion` and newer versions are rejected.
+ */
+export const PAYLOAD_SCHEMA_VERSION = 1;
+
+type JsonSchema = Record<string, unknown>;
+
+/** Checks one value, pushing `path message` issues; also describes itself as JSON Schema for the backend. */
+export interface Validator<T> {
+    /** Type-only: ties the validator to the payload interface it checks. */
+    readonly _type?: T;
+    readonly optional?: boolean;
+    check(value: unknown, path: string, issues: string[]): void;
+    jsonSchema(): JsonSchema;
+}
+
+const describe = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const at = (path: string, key: string | number): string =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const label = (path: string): string => path || 'payload';
+
+function string(opts: { allowEmpty?: boolean } = {}): Validator<string> {
+    return {
+        check: (value, path, issues) => {
+            if (typeof value !== 'string') issues.push(`${label(path)} must be a string (got ${describe(value)})`);
+            else if (!opts.allowEmpty && value.trim() === '') issues.push(`${label(path)} must not be empty`);
+        },
+        jsonSchema: () => ({ type: 'string', ...(opts.allowEmpty ? {} : { minLength: 1 }) }),
+    };
+}
+
+function number(opts: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> {
+    const { min, max, integer } = opts;
+    return {
+        check: (value, path, issues) => {
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                issues.push(`${label(path)} must be a number (got ${describe(value)})`);
+            } else if (integer && !Number.isInteger(value)) {
+                issues.push(`${label(path)} must be an integer (got ${value})`);
+            } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+                issues.push(`${label(path)} must be between ${min ?? '-∞'} and ${max ?? '∞'} (got ${value})`);
+            }
+        },
+        jsonSchema: () => ({
+            type: integer ? 'integer' : 'number',
+            ...(min !== undefined && { minimum: min }),
+            ...(max !== undefined && { maximum: max }),
+        }),
+    };
+}
+
+function boolean(): Validator<boolean> {
+    return {
+        check: (value, path, issues) => {
+            if (typeof value !== 'boolean') issues.push(`${label(path)} must be a boolean (got ${describe(value)})`);
+        },
+        jsonSchema: () => ({ type: 'boolean' }),
+    };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+    return {
+        check: (value, path, issues) => {
+            if (!(values as readonly unknown[]).includes(value)) {
+                issues.push(`${label(path)} must be one of ${values.join(', ')} (got ${JSON.stringify(value)})`);
+            }
+        },
+        jsonSchema: () => ({ enum: [...values] }),
+    };
+}
+
+/** Passes anything; documents fields the worker forwards without interpreting. */
+function unknown(description: string): Validator<unknown> {
+    return { check: () => {}, jsonSchema: () => ({ description }) };
+}
+
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+    return {
+        optional: true,
+        check: (value, path, issues) => {
+            if (value !== undefined && value !== null) validator.check(value, path, issues);
+        },
+        jsonSchema: validator.jsonSchema,
+    };
+}
+
+function array<T>(item: Validator<T>, opts: { minItems?: number } = {}): Validator<T[]> {
+    return {
+        check: (value, path, issues) => {
+            if (!Array.isArray(value)) {
+                issues.push(`${label(path)} must be an array (got ${describe(value)})`);
+                return;
+            }
+            if (opts.minItems !== undefined && value.length < opts.minItems) {
+                issues.push(`${label(path)} must have at least ${opts.minItems} item(s)`);
+            }
+            value.forEach((v, i) => item.check(v, at(path, i), issues));
+        },
+        jsonSchema: () => ({
+            type: 'array',
+            items: item.jsonSchema(),
+            ...(opts.minItems !== undefined && { minItems: opts.minItems }),
+        }),
+    };
+}
+
+/**
+ * Object with the given fields; unknown keys are allowed so the backend can add fields first.
+ * `refine` runs only when every field passed, for rules spanning several fields.
+ */
+function object<T>(
+    shape: { [K in keyof T]-?: Validator<T[K]> },
+    refine?: (value: T, path: string, issues: string[]) => void,
+): Validator<T> {
+    const fields = Object.entries(shape) as [string, Validator<unknown>][];
+    return {
+        check: (value, path, issues) => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                issues.push(`${label(path)} must be an object (got ${describe(value)})`);
+                return;
+            }
+            const before = issues.length;
+            for (const [key, validator] of fields) {
+                const field = (value as Record<string, unknown>)[key];
+                if (field === undefined && !validator.optional) issues.push(`${at(path, key)} is required`);
+                else validator.check(field, at(path, key), issues);
+            }
+            if (refine && issues.length === before) refine(value as T, path, issues);
+        },
+        jsonSchema: () => ({
+            type: 'object',
+            properties: Object.fromEntries(fields.map(([key, v]) => [key, v.jsonSchema()])),
+            required: fields.filter(([, v]) => !v.optional).map(([key]) => key),
+        }),
+    };
+}
+
+/** Picks the object schema by the value of `tag`, e.g. video tools options by `toolType`. */
+function variants<T>(tag: string, byTag: Record<string, Validator<T>>): Validator<T> {
+    const tags = Object.keys(byTag);
+    return {
+        check: (value, path, issues) => {
+            const kind = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[tag] : undefined;
+            const validator = typeof kind === 'string' ? byTag[kind] : undefined;
+            if (!validator) {
+                issues.push(`${at(path, tag)} must be one of ${tags.join(', ')} (got ${JSON.stringify(kind)})`);
+                return;
+            }
+            validator.check(value, path, issues);
+        },
+        jsonSchema: () => ({ oneOf: tags.map((t) => byTag[t]!.jsonSchema()) }),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Shared pieces
+// ---------------------------------------------------------------------------
+
+const id = string();
+const blobId = string();
+
+const watermark = object<WatermarkConfig>({
+    enabled: boolean(),
+    type: oneOf(['text', 'image'] as const),
+    value: optional(string({ allowEmpty: true })),
+});
+
+const monetization = optional(object<{ watermark: WatermarkConfig }>({ watermark }));
+
+const captionsHints = object<CaptionsHints>({
+    enabled: optional(boolean()),
+    preset: optional(string()),
+    position: optional(string()),
+    language: optional(string()),
+});
+
+/** `stockVideoTypes[i]` says whether `stockVideos[i]` is footage or an image fallback. */
+const stockVideoType = oneOf(['stock_video', 'image'] as const);
+
+function checkStockVideoTypes(videos: string[], types: string[], path: string, issues: string[]): void {
+    if (types.length !== videos.length) {
+        issues.push(`${at(path, 'stockVideoTypes')} must have one entry per stockVideos item (${types.length} vs ${videos.length})`);
+    }
+}
+
+const dimension = number({ integer: true, min: 1, max: 4096 });
+const seconds = number({ min: 0 });
+const volume = number({ min: 0, max: 1 });
+
+/** Extra sizes of a reel; each aspect at most once, the first is the media's video. */
+const outputs = optional(array(
+    object<OutputSpec>({
+        aspect: oneOf(Object.keys(OUTPUT_ASPECTS) as OutputAspect[]),
+        width: optional(number({ integer: true, min: 2, max: 4096 })),
+    }),
+    { minItems: 1 },
+));
+
+const encoding = optional(object<EncodingSelection>({
+    profile: optional(oneOf(Object.keys(ENCODING_PROFILES) as EncodingProfileName[])),
+    hevc: optional(boolean()),
+}));
+
+function checkOutputs(specs: OutputSpec[] | undefined, path: string, issues: string[]): void {
+    const aspects = (specs ?? []).map((spec) => spec.aspect);
+    const repeated = aspects.filter((aspect, i) => aspects.indexOf(aspect) !== i);
+    if (repeated.length > 0) issues.push(`${at(path, 'outputs')} lists ${[...new Set(repeated)].join(', ')} more than once`);
+}
+
+// ---------------------------------------------------------------------------
+// Per-queue payloads
+// ---------------------------------------------------------------------------
+
+const renderPayload = object<RenderJobPayload>(
+    {
+        mediaId: id,
+        stepId: id,
+        userId: id,
+        assets: object<RenderJobPayload['assets']>({
+            audio: blobId,
+            caption: blobId,
+            images: array(blobId, { minItems: 1 }),
+            music: optional(blobId),
+        }),
+        options: object<RenderJobPayload['options']>({
+            preset: string({ allowEmpty: true }),
+            rendering_hints: optional(object<RenderingHints>({
+                width: optional(dimension),
+                height: optional(dimension),
+                pacing: optional(string()),
+                language: optional(string()),
+                musicVolume: optional(volume),
+                captions: optional(captionsHints),
+            })),
+        }),
+        monetization,
+        outputs,
+        encoding,
+        plan: optional(string()),
+        hls: optional(boolean()),
+    },
+    (payload, path, issues) => checkOutputs(payload.outputs, path, issues),
+);
+
+type RemotionRenderingHints = NonNullable<RemotionJobPayload['options']['rendering_hints']>;
+
+const remotionPayload = object<RemotionJobPayload>(
+    {
+        mediaId: id,
+        stepId: id,
+        userId: id,
+        assets: object<RemotionJobPayload['assets']>(
+            {
+                audio: blobId,
+                caption: blobId,
+                images: array(blobId),
+                music: optional(blobId),
+                stockVideos: optional(array(blobId)),
+                stockVideoTypes: optional(array(stockVideoType)),
+            },
+            (assets, path, issues) => checkStockVideoTypes(assets.stockVideos ?? [], assets.stockVideoTypes ?? [], path, issues),
+        ),
+        options: object<RemotionJobPayload['options']>({
+            preset: string({ allowEmpty: true }),
+            rendering_hints: optional(object<RemotionRenderingHints>({
+                width: optional(dimension),
+                height: optional(dimension),
+                captions: optional(captionsHints),
+                language: optional(string()),
+                musicVolume: optional(volume),
+                motion_preset: optional(string()),
+                motion_presets: optional(array(string())),
+                motion_emotion: optional(string()),
+                pacing_style: optional(oneOf(['smooth', 'rhythmic', 'viral', 'dramatic'] as const)),
+            })),
+        }),
+        monetization,
+        outputs,
+        encoding,
+        plan: optional(string()),
+        hls: optional(boolean()),
+    },
+    (payload, path, issues) => checkOutputs(payload.outputs, path, issues),
+);
+
+const kineticTimelineBlock = object<NonNullable<KineticJobPayload['inputProps']['timeline']>[number]>({
+    text: string({ allowEmpty: true }),
+    words: array(string({ allowEmpty: true })),
+    durationInFrames: number({ integer: true, min: 1 }),
+    animationPreset: string(),
+    highlightWordIndices: optional(array(number({ integer: true, min: 0 }))),
+});
+
+const kineticPayload = object<KineticJobPayload>({
+    projectId: id,
+    userId: id,
+    compositionId: optional(string()),
+    monetization,
+    inputProps: object<KineticJobPayload['inputProps']>(
+        {
+            timeline: optional(array(kineticTimelineBlock)),
+            graphicMotionTimeline: optional(unknown('Graphic motion timeline; `scenes` (array) is normalized by the worker.')),
+            width: dimension,
+            height: dimension,
+            fps: optional(number({ integer: true, min: 1, max: 120 })),
+            fontFamily: optional(string()),
+        },
+        (props, path, issues) => {
+            const scenes = (props.graphicMotionTimeline as { scenes?: unknown } | null | undefined)?.scenes;
+            const hasScenes = Array.isArray(scenes) && scenes.length > 0;
+            if (!hasScenes && !(props.timeline && props.timeline.length > 0)) {
+                issues.push(`${path} needs graphicMotionTimeline.scenes or timeline (non-empty array)`);
+            }
+        },
+    ),
+    musicBlobId: optional(blobId),
+    musicVolume: optional(volume),
+});
+
+const stockVideoPayload = object<StockVideoJobPayload>(
+    {
+        mediaId: id,
+        stepId: id,
+        userId: id,
+        assets: object<StockVideoJobPayload['assets']>(
+            {
+                audio: blobId,
+                caption: blobId,
+                stockVideos: array(blobId, { minItems: 1 }),
+                stockVideoTypes: array(stockVideoType),
+                music: optional(blobId),
+            },
+            (assets, path, issues) => checkStockVideoTypes(assets.stockVideos, assets.stockVideoTypes, path, issues),
+        ),
+        options: object<StockVideoJobPayload['options']>({
+            preset: string({ allowEmpty: true }),
+            rendering_hints: optional(object<NonNullable<StockVideoJobPayload['options']['rendering_hints']>>({
+                width: optional(dimension),
+                height: optional(dimension),
+                captions: optional(captionsHints),
+                language: optional(string()),
+                musicVolume: optional(volume),
+            })),
+        }),
+        monetization,
+        outputs,
+        hls: optional(boolean()),
+    },
+    (payload, path, issues) => checkOutputs(payload.outputs, path, issues),
+);
+
+/**
+ * Fields common to every video tool; `toolType` and `options` come from the tool's entry in
+ * VIDEO_TOOL_OPTIONS. Multi-input tools take `inputBlobIds`, the others `inputBlobId`.
+ */
+function videoToolPayload(
+    toolType: VideoToolsJobPayload['toolType'],
+    options: Validator<VideoToolsJobPayload['options']>,
+): Validator<VideoToolsJobPayload> {
+    const multiInput = MULTI_INPUT_TOOLS.has(toolType);
+    return object<VideoToolsJobPayload>({
+        projectId: id,
+        userId: id,
+        inputBlobId: multiInput ? optional(blobId) : blobId,
+        inputBlobIds: multiInput ? array(blobId, { minItems: 2 }) : optional(array(blobId)),
+        toolType: oneOf([toolType]),
+        options,
+        outputFileName: string(),
+        plan: optional(string()),
+        encoding,
+    });
+}
+
+const timeRange = object<TimeRange>(
+    { start: seconds, end: seconds },
+    (range, path, issues) => {
+        if (range.end <= range.start) issues.push(`${label(path)} must end after it starts (${range.start}–${range.end})`);
+    },
+);
+
+const VIDEO_TOOL_OPTIONS: Record<VideoToolsJobPayload['toolType'], Validator<VideoToolsJobPayload['options']>> = {
+    'video-resize': object<VideoResizeOptions>({
+        width: dimension,
+        height: dimension,
+        fit: optional(oneOf(['fill', 'contain', 'cover'] as const)),
+    }),
+    'video-compress': object<VideoCompressOptions>({
+        // 0 × 0 keeps the source resolution.
+        width: number({ integer: true, min: 0, max: 4096 }),
+        height: number({ integer: true, min: 0, max: 4096 }),
+        crf: optional(number({ integer: true, min: 0, max: 51 })),
+        presetLabel: optional(string({ allowEmpty: true })),
+    }),
+    'video-trim': object<VideoTrimOptions>(
+        {
+            start: optional(seconds),
+            end: optional(seconds),
+            remove: optional(array(timeRange)),
+        },
+        (opts, path, issues) => {
+            if (opts.end !== undefined && opts.end <= (opts.start ?? 0)) {
+                issues.push(`${at(path, 'end')} must be after start (${opts.start ?? 0}–${opts.end})`);
+            }
+        },
+    ),
+    'video-concat': object<VideoConcatOptions>({
+        width: optional(dimension),
+        height: optional(dimension),
+        fit: optional(oneOf(['fill', 'contain', 'cover'] as const)),
+        fps: optional(number({ min: 1, max: 60 })),
+    }),
+    'video-convert': object<VideoConvertOptions>({
+        format: oneOf(Object.keys(CONVERT_FORMATS) as ConvertFormat[]),
+        start: optional(seconds),
+        duration: optional(number({ min: 0.1 })),
+        fps: optional(number({ min: 1, max: 60 })),
+        width: optional(dimension),
+    }),
+    'video-captions': object<VideoCaptionsOptions>({
+        captionBlobId: blobId,
+        format: optional(oneOf(['json', 'srt', 'ass'] as const)),
+        preset: optional(string()),
+        position: optional(oneOf(['top', 'center', 'bottom'] as const)),
+        language: optional(string()),
+    }),
+    'video-reframe': object<VideoReframeOptions>({
+        width: optional(dimension),
+        height: optional(dimension),
+        mode: optional(oneOf(['track', 'blur'] as const)),
+        sceneThreshold: optional(number({ min: 0.05, max: 1 })),
+    }),
+    'video-jumpcut': object<VideoJumpcutOptions>({
+        thresholdDb: optional(number({ min: -90, max: 0 })),
+        minSilenceSec: optional(number({ min: 0.1 })),
+        paddingSec: optional(number({ min: 0, max: 2 })),
+    }),
+    'video-audio': object<VideoAudioOptions>(
+        {
+            mode: optional(oneOf(['mix', 'replace', 'mute'] as const)),
+            musicBlobId: optional(blobId),
+            musicVolume: optional(number({ min: 0, max: 1 })),
+            normalize: optional(boolean()),
+            targetLufs: optional(number({ min: -31, max: -5 })),
+            truePeakDb: optional(number({ min: -9, max: 0 })),
+        },
+        (opts, path, issues) => {
+            if (opts.mode === 'replace' && !opts.musicBlobId) issues.push(`${at(path, 'musicBlobId')} is required for mode replace`);
+        },
+    ),
+};
+
+const videoToolsPayload = variants<VideoToolsJobPayload>(
+    'toolType',
+    Object.fromEntries(
+        Object.entries(VIDEO_TOOL_OPTIONS).map(([tool, options]) => [
+            tool,
+            videoToolPayload(tool as VideoToolsJobPayload['toolType'], options),
+        ]),
+    ),
+);
+
+/** Payload schema per BullMQ queue name. */
+export const PAYLOAD_SCHEMAS: Record<string, Validator<unknown>> = {
+    'render-tasks': renderPayload,
+    'remotion-render-tasks': remotionPayload,
+    'remotion-kinetic-typography-tasks': kineticPayload,
+    'stock-video-render-tasks': stockVideoPayload,
+    'video-tools-tasks': videoToolsPayload,
+};
+
+/** INVALID_PAYLOAD is permanent: retrying a malformed payload can only fail the same way. */
+export class InvalidPayloadError extends RenderError {
+    readonly queue: string;
+    readonly issues: string[];
+
+    constructor(queue: string, issues: string[]) {
+        super('INVALID_PAYLOAD', `${queue} job data does not match schema v${PAYLOAD_SCHEMA_VERSION}: ${issues.join('; ')}`);
+        this.name = 'InvalidPayloadError';
+        this.queue = queue;
+        this.issues = issues;
+    }
+}
+
+/** Every problem with `data` for `queue` (empty when valid or when the queue has no schema). */
+export function payloadIssues(queue: string, data: unknown): string[] {
+    const schema = PAYLOAD_SCHEMAS[queue];
+    if (!schema) return [];
+    const issues: string[] = [];
+    const version = typeof data === 'object' && data !== null ? (data as Record<string, unknown>).schemaVersion : undefined;
+    if (version !== undefined && (!Number.isInteger(version) || (version as number) < 1 || (version as number) > PAYLOAD_SCHEMA_VERSION)) {
+        issues.push(`schemaVersion ${JSON.stringify(version)} is not supported (this worker speaks 1–${PAYLOAD_SCHEMA_VERSION})`);
+    }
+    schema.check(data, '', issues);
+    return issues;
+}
+
+/** JSON Schema (draft 2020-12) for every queue, for the backend to validate before enqueueing. */
+export function payloadJsonSchema(): JsonSchema {
+    return {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        title: 'Render worker job payloads',
+        version: PAYLOAD_SCHEMA_VERSION,
+        queues: Object.fromEntries(
+            Object.entries(PAYLOAD_SCHEMAS).map(([queue, schema]) => [queue, withVersion(schema.jsonSchema())]),
+        ),
+    };
+}
+
+function withVersion(schema: JsonSchema): JsonSchema {
+    const versionProperty = { type: 'integer', minimum: 1, maximum: PAYLOAD_SCHEMA_VERSION };
+    if (Array.isArray(schema.oneOf)) return { oneOf: (schema.oneOf as JsonSchema[]).map(withVersion) };
+    return { ...schema, properties: { schemaVersion: versionProperty, ...(schema.properties as JsonSchema) } };
+}
@@ -5,7 +5,11 @@ import { createReadStream, readFileSync, writeFileSync, existsSync } from 'fs';
 
 const CURRENT_DIR = dirname(fileURLToPath(import.meta.url));
 import { Readable } from 'stream';
-import { AssGenerator } from './ass-generator.js';
+import { AssGenerator, usesDevanagari } from './ass-generator.js';
+import { parseFfmpegTime } from './progress.js';
+import { encodingArgs, resolveEncoding } from './encoding-profiles.js';
+import type { ResolvedEncoding } from './encoding-profiles.js';
+import { RenderError } from './render-errors.js';
 
 export interface WatermarkConfig {
     enabled: boolean;
@@ -13,31 +17,71 @@ export interface WatermarkConfig {
     value?: string;
 }
 
+/** Caption styling from the backend; `enabled: false` skips burn-in. */
+export interface CaptionsHints {
+    enabled?: boolean;
+    preset?: string;
+    position?: string;
+    language?: string;
+}
+
+/** Backend hints for the render; checked at the queue boundary (see payload-schema.ts). Unknown keys pass through. */
+export interface RenderingHints {
+    width?: number;
+    height?: number;
+    /** `fast` / `slow` shorten or lengthen crossfades; anything else is the default. */
+    pacing?: string;
+    language?: string;
+    musicVolume?: number;
+    captions?: CaptionsHints;
+    [key: string]: unknown;
+}
+
 export interface RenderOptions {
     audioPath: string;
     captionPath: string;
     assetPaths: string[];
     outputPath: string;
     preset: string;
-    rendering_hints?: any;
+    rendering_hints?: RenderingHints;
     musicPath?: string;
     musicVolume?: number;
+    /** Output size; overrides rendering_hints.width/height (one size of a multi-output render). */
     width?: number;
     height?: number;
+    /** Encoding profile (see encoding-profiles.ts); default ENCODING_DEFAULT_PROFILE. `preset` applies when it sets none. */
+    encoding?: ResolvedEncoding;
     /** When enabled, burn text watermark into video (from backend/user plan). */
     watermark?: WatermarkConfig;
+    /** Remotion motion preset per image (e.g. kenBurns); unknown or missing entries get a random Ken Burns effect. */
+    motionPresets?: string[];
+    /** Crossfade length in seconds; overrides the rendering_hints.pacing derived value. */
+    transitionDuration?: number;
+    /** Aborting kills the ffmpeg child; the promise rejects with signal.reason. */
+    signal?: AbortSignal;
+    /** Encode progress 0–1, from ffmpeg's `time=` against the voiceover duration (the output length with -shortest). */
+    onProgress?: (fraction: number) => void;
 }
 
+/** zoompan expressions approximating the Remotion motion presets, so fallback renders keep a similar feel. */
+const KEN_BURNS_BY_MOTION_PRESET: Record<string, string> = {
+    kenBurns: "z='min(zoom+0.0015,1.5)':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':",
+    cinematicZoom: "z='if(eq(on,1),1.5,max(1.0,zoom-0.0015))':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':",
+    documentarySlowPan: "z=1.2:x='if(eq(on,1),0,min(x+1,iw-iw/zoom))':y='(ih-ih/zoom)/2':",
+};
+
 export class VideoProcessor {
     async process(options: RenderOptions): Promise<void> {
-        const { audioPath, captionPath, assetPaths, outputPath, preset, rendering_hints, musicPath, musicVolume, watermark } = options;
-        const width = rendering_hints?.width || 720;
-        const height = rendering_hints?.height || 1280;
+        const { audioPath, captionPath, assetPaths, outputPath, preset, rendering_hints, musicPath, musicVolume, watermark, motionPresets, signal, onProgress } = options;
+        const width = options.width || rendering_hints?.width || 720;
+        const height = options.height || rendering_hints?.height || 1280;
+        const encoding = options.encoding ?? resolveEncoding(undefined, undefined, 'Processor');
         const hasWatermark = Boolean(watermark?.enabled && watermark?.type === 'text' && watermark?.value);
 
         const audioDuration = await this.getMediaDuration(audioPath);
         const imageCount = assetPaths.length || 1;
-        const transitionDuration = rendering_hints?.pacing === 'fast' ? 0.3 : rendering_hints?.pacing === 'slow' ? 1.0 : 0.5;
+        const transitionDuration = options.transitionDuration
+            ?? (rendering_hints?.pacing === 'fast' ? 0.3 : rendering_hints?.pacing === 'slow' ? 1.0 : 0.5);
         const audioDurationWithBuffer = audioDuration + 0.5;
 
         let slideDuration: number;
@@ -53,11 +97,12 @@ export class VideoProcessor {
 
         // 1. Inputs and Per-Image Filters
         assetPaths.forEach((_, i) => {
-            const effect = this.getRandomKenBurnsEffect();
-            const frames = Math.ceil((slideDuration + transitionDuration) * 25);
+            const motionPreset = motionPresets?.[i];
+            const effect = (motionPreset && KEN_BURNS_BY_MOTION_PRESET[motionPreset]) || this.getRandomKenBurnsEffect();
+            const frames = Math.ceil((slideDuration + transitionDuration) * encoding.fps);
             complexFilters.push(
                 `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1,` +
-                `zoompan=${effect}d=${frames}:s=${width}x${height}:fps=25[v${i}]`
+                `zoompan=${effect}d=${frames}:s=${width}x${height}:fps=${encoding.fps}[v${i}]`
             );
             videoStreams.push(`v${i} `);
         });
@@ -81,48 +126,12 @@ export class VideoProcessor {
         }
 
         // 3. Sequential Stable Captions (Deterministic Drawtext Path)
-        const captionsConfig = rendering_hints?.captions || {};
+        const captionsConfig: CaptionsHints = rendering_hints?.captions || {};
         const enabled = captionsConfig.enabled !== false;
 
         if (enabled && captionPath) {
-            const isJson = captionPath.endsWith('.json');
-
-            if (isJson) {
-                const captions = JSON.parse(readFileSync(captionPath).toString());
-                const captionLanguage = captionsConfig.language ?? rendering_hints?.language;
-                const hasDevanagari = captions.some((c: any) => /[\u0900-\u097F]/.test(String(c.text ?? '') + (Array.isArray(c.words) ? c.words.map((w: any) => String(w.text ?? '')).join('') : '')));
-                const isHindi = (captionLanguage && /hindi|hi|हिंदी/i.test(String(captionLanguage))) || hasDevanagari;
-
-                // --- ASS SUBTITLE GENERATION (True Karaoke) ---
-                const assPath = captionPath.replace('.json', '.ass');
-                const assContent = AssGenerator.generate(captions, captionsConfig.preset || 'karaoke-card', captionsConfig.position || 'bottom', captionLanguage);
-                writeFileSync(assPath, assContent);
-
-                const escapedAssPath = this.escapeFilterPath(assPath);
-                // Always pass fontsdir when Noto Sans Devanagari is present — FFmpeg uses it
-                // for Hindi (Devanagari) and falls back to system fonts for other scripts.
-                // This avoids tofu boxes even when language detection misses 'hindi'.
-                const fontsDir = resolve(CURRENT_DIR, '..', 'fonts');
-                const hindiFontFile = join(fontsDir, 'NotoSansDevanagari-Regular.ttf');
-                const useFontsDir = existsSync(hindiFontFile);
-                console.log(`[Processor] fontsDir=${fontsDir} hindiFontFile=${hindiFontFile} exists=${useFontsDir} isHindi=${isHindi}`);
-                if (isHindi && !useFontsDir) {
-                    console.warn(`[Processor] Hindi captions: font not found at ${hindiFontFile}. Run: npm run ensure-fonts`);
-                }
-                const fontsDirOpt = useFontsDir ? `:fontsdir='${this.escapeFilterPath(fontsDir)}'` : '';
-
-                // Use subtitles filter directly on the stream
-                complexFilters.push(
-                    `[v_merged_raw]subtitles='${escapedAssPath}'${fontsDirOpt}[v_final]`
-                );
-
-                // No loop needed, subtitles filter handles the whole file
-            } else {
-                // Backward compatibility for legacy ASS/SRT files
-                const escapedPath = this.escapeFilterPath(captionPath);
-                const filter = captionPath.endsWith('.ass') ? 'ass' : 'subtitles';
-                complexFilters.push(`[v_merged_raw]${filter}='${escapedPath}'[v_final]`);
-            }
+            const captionLanguage = captionsConfig.language ?? rendering_hints?.language;
+            complexFilters.push(`[v_merged_raw]${captionsFilter(captionPath, captionsConfig, captionLanguage, width / height)}[v_final]`);
         } else {
             complexFilters.push(`[v_merged_raw]copy[v_final]`);
         }
@@ -142,20 +151,8 @@ export class VideoProcessor {
         let finalAudioMap = `${voIndex}:a`;
 
         if (musicPath) {
-            const bgVol = musicVolume !== undefined ? musicVolume : 0.2;
-            complexFilters.push(
-                // Split VO: one for output (clean), one for sidechain trigger
-                `[${voIndex}:a]volume=1.0,asplit[vo_clean][vo_trigger];` +
-                // Prepare BG Music: Loop is handled by input flag, just set volume
-                `[${musicIndex}:a]volume=${bgVol}[bg_raw];` +
-                // Sidechain Ducking: Compress BG when VO is active
-                // threshold: reduce when VO > 0.05
-                // ratio: 4:1 reduction
-                // release: 200ms recovery time
-                `[bg_raw][vo_trigger]sidechaincompress=threshold=0.05:ratio=4:attack=5:release=200[bg_ducked];` +
-                // Mix clean VO and ducked BG
-                `[vo_clean][bg_ducked]amix=inputs=2:duration=first:dropout_transition=0[a_final]`
-            );
+            // Loop is handled by the input flag
+            complexFilters.push(duckedMusicFilter(`${voIndex}:a`, `${musicIndex}:a`, musicVolume ?? 0.2, 'a_final'));
             finalAudioMap = '[a_final]';
         }
 
@@ -167,12 +164,7 @@ export class VideoProcessor {
             '-filter_complex', complexFilters.join(';'),
             '-map', `[${videoOutputLabel}]`,
             '-map', finalAudioMap,
-            '-c:v', 'libx264',
-            '-preset', preset,
-            '-crf', '23',
-            '-c:a', 'aac',
-            '-b:a', '192k',
-            '-pix_fmt', 'yuv420p',
+            ...encodingArgs(encoding, { preset }),
             '-shortest',
             '-f', 'mp4',
             outputPath
@@ -182,31 +174,35 @@ export class VideoProcessor {
         const startTime = Date.now();
 
         return new Promise((resolve, reject) => {
-            const ffmpeg = spawn('ffmpeg', args);
+            const ffmpeg = spawn('ffmpeg', args, { signal, killSignal: 'SIGKILL' });
             let stderrLogs = '';
 
             ffmpeg.stderr.on('data', (data) => {
                 const chunk = data.toString();
                 stderrLogs += chunk;
-                // Optional: log progress lines only (too much noise otherwise)
-                if (chunk.includes('frame=')) {
-                    // console.log(`[FFmpeg Progress] ${ chunk.trim() } `);
+                if (onProgress && audioDuration > 0) {
+                    const seconds = parseFfmpegTime(chunk);
+                    if (seconds !== null) onProgress(Math.min(1, seconds / audioDuration));
                 }
             });
 
             ffmpeg.on('close', (code) => {
                 const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-                if (code === 0) {
+                if (signal?.aborted) {
+                    console.warn(`[Processor][FFmpeg] 🛑 Killed after ${duration} s (cancelled)`);
+                    reject(signal.reason);
+                } else if (code === 0) {
                     console.log(`[Processor][FFmpeg] ✅ Process finished successfully in ${duration} s`);
                     resolve();
                 } else {
                     console.error(`[Processor][FFmpeg] ❌ Process failed with code ${code} `);
                     console.error(`[Processor][FFmpeg] 📄 Last logs: \n${stderrLogs.slice(-2000)} `);
-                    reject(new Error(`FFmpeg exited with code ${code}. Check logs for details.`));
+                    reject(new RenderError('FFMPEG_FAILED', `FFmpeg exited with code ${code}`, { stderr: stderrLogs.slice(-2000) }));
                 }
             });
 
             ffmpeg.on('error', (err) => {
+                if (signal?.aborted) return; // reported from 'close'
                 console.error(`[Processor][FFmpeg] 💥 Failed to start subprocess: `, err);
                 reject(err);
             });
@@ -246,13 +242,68 @@ export class VideoProcessor {
         ];
         return effects[Math.floor(Math.random() * effects.length)]!;
     }
+}
 
-    private escapeFilterPath(path: string): string {
-        return path
-            .replace(/\\/g, '/')
-            .replace(/:/g, '\\:')
-            .replace(/'/g, "'\\\\\\''"); // Triple-escaped for FFmpeg's filter parser
+export function escapeFilterPath(path: string): string {
+    return path
+        .replace(/\\/g, '/')
+        .replace(/:/g, '\\:')
+        .replace(/'/g, "'\\\\\\''"); // Triple-escaped for FFmpeg's filter parser
+}
+
+/**
+ * Background music ducked under the voice and mixed with it, as `[out]`. The mix lasts as long as
+ * the voice; `voice` and `music` are stream labels without brackets.
+ */
+export function duckedMusicFilter(voice: string, music: string, musicVolume: number, out: string): string {
+    return (
+        // Split VO: one for output (clean), one for sidechain trigger
+        `[${voice}]volume=1.0,asplit[vo_clean][vo_trigger];` +
+        `[${music}]volume=${musicVolume}[bg_raw];` +
+        // Sidechain Ducking: Compress BG when VO is active
+        // threshold: reduce when VO > 0.05
+        // ratio: 4:1 reduction
+        // release: 200ms recovery time
+        `[bg_raw][vo_trigger]sidechaincompress=threshold=0.05:ratio=4:attack=5:release=200[bg_ducked];` +
+        // Mix clean VO and ducked BG
+        `[vo_clean][bg_ducked]amix=inputs=2:duration=first:dropout_transition=0[${out}]`
+    );
+}
+
+/**
+ * The burn-in filter for a caption file (no stream labels). Word-timed JSON becomes ASS with the
+ * preset's style (written next to it as `.ass`); ASS and SRT files are burned in as they are.
+ * `aspectRatio` is the video's width / height.
+ */
+export function captionsFilter(captionPath: string, hints: CaptionsHints, language?: string, aspectRatio?: number): string {
+    // Always pass fontsdir when Noto Sans Devanagari is present — FFmpeg uses it
+    // for Hindi (Devanagari) and falls back to system fonts for other scripts.
+    // This avoids tofu boxes even when language detection misses 'hindi'.
+    const fontsDir = resolve(CURRENT_DIR, '..', 'fonts');
+    const hindiFontFile = join(fontsDir, 'NotoSansDevanagari-Regular.ttf');
+    const useFontsDir = existsSync(hindiFontFile);
+    const fontsDirOpt = useFontsDir ? `:fontsdir='${escapeFilterPath(fontsDir)}'` : '';
+
+    if (!captionPath.endsWith('.json')) {
+        // Backward compatibility for legacy ASS/SRT files
+        const filter = captionPath.endsWith('.ass') ? 'ass' : 'subtitles';
+        return `${filter}='${escapeFilterPath(captionPath)}'${fontsDirOpt}`;
+    }
+
+    const captions = JSON.parse(readFileSync(captionPath).toString());
+    const isHindi = usesDevanagari(captions, language);
+
+    // --- ASS SUBTITLE GENERATION (True Karaoke) ---
+    const assPath = captionPath.replace('.json', '.ass');
+    const assContent = AssGenerator.generate(captions, hints.preset || 'karaoke-card', hints.position || 'bottom', language, aspectRatio);
+    writeFileSync(assPath, assContent);
+
+    console.log(`[Processor] fontsDir=${fontsDir} hindiFontFile=${hindiFontFile} exists=${useFontsDir} isHindi=${isHindi}`);
+    if (isHindi && !useFontsDir) {
+        console.warn(`[Processor] Hindi captions: font not found at ${hindiFontFile}. Run: npm run ensure-fonts`);
     }
+
+    return `subtitles='${escapeFilterPath(assPath)}'${fontsDirOpt}`;
 }
 
 
@@ -0,0 +1,56 @@
+import type { Job } from 'bullmq';
+import type { DbService } from './db.js';
+
+/** At most one DB/BullMQ progress write per job in this window (except the final 100%). */
+const PROGRESS_MIN_INTERVAL_MS = 2000;
+
+export type ProgressTarget = { stepId: string } | { projectId: string };
+
+/** BullMQ job progress payload; the frontend derives the bar from `percent` and can show `etaSeconds`. */
+export interface JobProgress {
+    percent: number;
+    etaSeconds: number | null;
+}
+
+/** Reports a 0–1 fraction; safe to call on every ffmpeg stderr chunk or render poll. */
+export type ProgressCallback = (fraction: number) => void;
+
+/**
+ * Throttled progress reporter writing to job.updateProgress() and the step/project `progress` column.
+ * Only forward movement is reported; write failures are logged and never fail the job.
+ */
+export function createProgressReporter(job: Job, db: DbService, target: ProgressTarget): ProgressCallback {
+    const startedAt = Date.now();
+    let lastPercent = -1;
+    let lastReportAt = 0;
+
+    return (fraction: number) => {
+        const percent = Math.max(0, Math.min(100, Math.floor(fraction * 100)));
+        const now = Date.now();
+        if (percent <= lastPercent) return;
+        if (percent < 100 && now - lastReportAt < PROGRESS_MIN_INTERVAL_MS) return;
+        lastPercent = percent;
+        lastReportAt = now;
+
+        const elapsedSec = (now - startedAt) / 1000;
+        const progress: JobProgress = {
+            percent,
+            etaSeconds: percent > 0 ? Math.round((elapsedSec * (100 - percent)) / percent) : null,
+        };
+        const dbWrite = 'stepId' in target
+            ? db.updateStepProgress(target.stepId, percent)
+            : db.updateProjectProgress(target.projectId, percent);
+        Promise.all([job.updateProgress(progress), dbWrite]).catch((err: unknown) => {
+            const msg = err instanceof Error ? err.message : String(err);
+            console.warn(`[Progress] Failed to report ${percent}% for job ${job.id}: ${msg}`);
+        });
+    };
+}
+
+/** Seconds from the last `time=HH:MM:SS.xx` in an ffmpeg stderr chunk, or null if the chunk has none. */
+export function parseFfmpegTime(chunk: string): number | null {
+    const matches = [...chunk.matchAll(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/g)];
+    const last = matches[matches.length - 1];
+    if (!last) return null;
+    return parseInt(last[1]!, 10) * 3600 + parseInt(last[2]!, 10) * 60 + parseFloat(last[3]!);
+}
@@ -0,0 +1,242 @@
+import { spawn } from 'child_process';
+import { writeFileSync } from 'fs';
+import { escapeFilterPath } from './processor.js';
+import { RenderError } from './render-errors.js';
+
+/**
+ * CPU-only subject tracking for landscape → vertical reframing. Two cheap passes over downscaled
+ * frames: scene cuts from ffmpeg's scene score, and per-frame saliency (motion + edges per column)
+ * to find where the crop window captures the most. The crop path holds still within a deadzone,
+ * pans smoothly inside a scene and jumps only at cuts.
+ */
+
+/** Analysis frames are this wide and sampled at ANALYSIS_FPS; small enough to stay cheap. */
+const ANALYSIS_WIDTH = 192;
+const ANALYSIS_FPS = 4;
+const ANALYSIS_TIMEOUT_MS = 5 * 60 * 1000;
+/** Moving-average window of the subject position inside a scene. */
+const SMOOTHING_SEC = 1.5;
+const KEYFRAME_INTERVAL_SEC = 1;
+/** Moves smaller than this fraction of the source width are ignored, so the crop does not jitter. */
+const DEADZONE = 0.04;
+/** Motion counts more than static edges: the speaker moves, the bookshelf does not. */
+const MOTION_WEIGHT = 3;
+/** Frames with less mean energy per pixel than this carry no subject (fades, black frames). */
+const MIN_ENERGY = 0.5;
+
+export interface CropKeyframe {
+    /** Seconds. */
+    t: number;
+    /** Left edge of the crop window in source pixels. */
+    x: number;
+}
+
+export interface CropPath {
+    /** Crop window width in source pixels (height is the full source height). */
+    cropWidth: number;
+    /** Keyframes per scene, in order; the path jumps between scenes and is linear within them. */
+    scenes: CropKeyframe[][];
+}
+
+interface SaliencySample {
+    t: number;
+    /** Best crop window center as a fraction of the width. */
+    center: number;
+}
+
+/** Runs an analysis ffmpeg; `onStdout` and `onStderr` see the output as it streams. */
+function runAnalysis(
+    args: string[],
+    signal: AbortSignal | undefined,
+    handlers: { onStdout?: (chunk: Buffer) => void; onStderr?: (chunk: string) => void },
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'], signal, killSignal: 'SIGKILL' });
+        let stderrTail = '';
+        ffmpeg.stdout.on('data', (chunk: Buffer) => handlers.onStdout?.(chunk));
+        ffmpeg.stderr.on('data', (d) => {
+            const chunk = d.toString();
+            stderrTail = (stderrTail + chunk).slice(-2000);
+            handlers.onStderr?.(chunk);
+        });
+        const timer = setTimeout(() => {
+            ffmpeg.kill('SIGKILL');
+            reject(new RenderError('TIMEOUT', `Reframe analysis timeout after ${ANALYSIS_TIMEOUT_MS / 60000} minutes`));
+        }, ANALYSIS_TIMEOUT_MS);
+        ffmpeg.on('close', (code) => {
+            clearTimeout(timer);
+            if (signal?.aborted) reject(signal.reason);
+            else if (code === 0) resolve();
+            else reject(new RenderError('FFMPEG_FAILED', `Reframe analysis exited ${code}`, { stderr: stderrTail }));
+        });
+        ffmpeg.on('error', (err) => {
+            clearTimeout(timer);
+            if (!signal?.aborted) reject(err);
+        });
+    });
+}
+
+/** Scene cut times (seconds) where ffmpeg's scene score exceeds `threshold` (0–1). */
+async function detectSceneCuts(inputPath: string, threshold: number, signal?: AbortSignal): Promise<number[]> {
+    const cuts: number[] = [];
+    let pending = '';
+    await runAnalysis(
+        ['-hide_banner', '-i', inputPath, '-an', '-vf', `scale=${ANALYSIS_WIDTH}:-2,select='gt(scene,${threshold})',showinfo`, '-f', 'null', '-'],
+        signal,
+        {
+            onStderr: (chunk) => {
+                const lines = (pending + chunk).split('\n');
+                pending = lines.pop() ?? '';
+                for (const line of lines) {
+                    const match = line.includes('Parsed_showinfo') ? /pts_time:\s*([\d.]+)/.exec(line) : null;
+                    if (match) cuts.push(Number(match[1]));
+                }
+            },
+        },
+    );
+    return cuts;
+}
+
+/** Per analysis frame, the window `windowFraction` of the width wide that holds the most energy. */
+async function sampleSaliency(
+    inputPath: string,
+    sourceWidth: number,
+    sourceHeight: number,
+    windowFraction: number,
+    signal?: AbortSignal,
+): Promise<SaliencySample[]> {
+    const w = ANALYSIS_WIDTH;
+    const h = Math.max(2, Math.round((ANALYSIS_WIDTH * sourceHeight) / sourceWidth / 2) * 2);
+    const frameSize = w * h;
+    const windowWidth = Math.max(1, Math.round(w * windowFraction));
+    const samples: SaliencySample[] = [];
+    let buffered = Buffer.alloc(0);
+    let previous: Buffer | null = null;
+    let index = 0;
+
+    const analyze = (frame: Buffer) => {
+        const columns = new Float64Array(w);
+        let total = 0;
+        for (let y = 0; y < h - 1; y++) {
+            for (let x = 0; x < w - 1; x++) {
+                const i = y * w + x;
+                const p = frame[i]!;
+                let energy = Math.abs(frame[i + 1]! - p) + Math.abs(frame[i + w]! - p);
+                if (previous) energy += MOTION_WEIGHT * Math.abs(p - previous[i]!);
+                columns[x] = columns[x]! + energy;
+                total += energy;
+            }
+        }
+        const t = index++ / ANALYSIS_FPS;
+        if (total / frameSize < MIN_ENERGY) return;
+
+        let sum = 0;
+        for (let x = 0; x < windowWidth; x++) sum += columns[x]!;
+        let best = sum;
+        let bestStart = 0;
+        for (let start = 1; start + windowWidth <= w; start++) {
+            sum += columns[start + windowWidth - 1]! - columns[start - 1]!;
+            if (sum > best) {
+                best = sum;
+                bestStart = start;
+            }
+        }
+        samples.push({ t, center: (bestStart + windowWidth / 2) / w });
+    };
+
+    await runAnalysis(
+        ['-hide_banner', '-i', inputPath, '-an', '-vf', `fps=${ANALYSIS_FPS},scale=${w}:${h},format=gray`, '-f', 'rawvideo', '-'],
+        signal,
+        {
+            onStdout: (chunk) => {
+                buffered = Buffer.concat([buffered, chunk]);
+                while (buffered.length >= frameSize) {
+                    const frame = Buffer.from(buffered.subarray(0, frameSize));
+                    buffered = buffered.subarray(frameSize);
+                    analyze(frame);
+                    previous = frame;
+                }
+            },
+        },
+    );
+    return samples;
+}
+
+/** Smoothed subject center at `t`, from the scene's samples (moving average over SMOOTHING_SEC). */
+function smoothedCenter(samples: SaliencySample[], t: number): number {
+    const near = samples.filter((s) => Math.abs(s.t - t) <= SMOOTHING_SEC / 2);
+    const pool = near.length > 0
+        ? near
+        : [samples.reduce((a, b) => (Math.abs(b.t - t) < Math.abs(a.t - t) ? b : a))];
+    return pool.reduce((total, s) => total + s.center, 0) / pool.length;
+}
+
+/**
+ * Analyzes the input and returns the crop path for a `cropWidth`-wide window, or null when no
+ * frame had enough detail to track (the caller falls back to blurred-background letterboxing).
+ */
+export async function analyzeReframe(
+    inputPath: string,
+    source: { width: number; height: number; durationSec: number },
+    cropWidth: number,
+    sceneThreshold: number,
+    signal?: AbortSignal,
+): Promise<CropPath | null> {
+    const cuts = await detectSceneCuts(inputPath, sceneThreshold, signal);
+    const samples = await sampleSaliency(inputPath, source.width, source.height, cropWidth / source.width, signal);
+    if (samples.length === 0) return null;
+
+    const duration = source.durationSec || samples[samples.length - 1]!.t + 1 / ANALYSIS_FPS;
+    const bounds = [0, ...cuts.filter((t) => t > 0 && t < duration), duration];
+    const maxX = source.width - cropWidth;
+    const toX = (center: number) => Math.round(Math.max(0, Math.min(maxX, center * source.width - cropWidth / 2)));
+
+    let lastCenter = 0.5;
+    const scenes = bounds.slice(0, -1).map((start, i) => {
+        const end = bounds[i + 1]!;
+        const inScene = samples.filter((s) => s.t >= start && s.t < end);
+        const keyframes: CropKeyframe[] = [];
+        let held: number | null = null;
+        for (let t = start; ; t = Math.min(end, t + KEYFRAME_INTERVAL_SEC)) {
+            // A scene without usable frames keeps the previous scene's position.
+            const center = inScene.length > 0 ? smoothedCenter(inScene, t) : lastCenter;
+            if (held === null || Math.abs(center - held) >= DEADZONE) held = center;
+            keyframes.push({ t, x: toX(held) });
+            if (t >= end) break;
+        }
+        lastCenter = held ?? lastCenter;
+        return keyframes;
+    });
+    return { cropWidth, scenes };
+}
+
+/**
+ * Writes the crop path as `sendcmd` commands (one linear x expression per keyframe interval) and
+ * returns the filter chain for it, ending in a `width`×`height` output.
+ */
+export function trackingCropFilter(path: CropPath, commandsPath: string, width: number, height: number): string {
+    const commands: string[] = [];
+    for (const keyframes of path.scenes) {
+        keyframes.slice(0, -1).forEach((from, i) => {
+            const to = keyframes[i + 1]!;
+            const dt = to.t - from.t;
+            const expr = to.x === from.x || dt <= 0
+                ? `${from.x}`
+                : `'${from.x}+(${to.x - from.x})*(t-${from.t.toFixed(3)})/${dt.toFixed(3)}'`;
+            commands.push(`${from.t.toFixed(3)} crop@reframe x ${expr};`);
+        });
+    }
+    writeFileSync(commandsPath, commands.join('\n') + '\n');
+    const firstX = path.scenes[0]?.[0]?.x ?? 0;
+    return `sendcmd=f='${escapeFilterPath(commandsPath)}',crop@reframe=w=${path.cropWidth}:h=ih:x=${firstX}:y=0,scale=${width}:${height},setsar=1`;
+}
+
+/** The whole frame fitted over a blurred, zoomed copy of itself. */
+export function blurredBackgroundFilter(width: number, height: number): string {
+    return [
+        'split[bg][fg]',
+        `[bg]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:5[bgb]`,
+        `[fg]scale=${width}:${height}:force_original_aspect_ratio=decrease[fgs]`,
+        '[bgb][fgs]overlay=(W-w)/2:(H-h)/2,setsar=1',
+    ].join(';');
+}
@@ -0,0 +1,116 @@
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdirSync, existsSync, rmSync } from 'node:fs';
+import type { StorageService } from './storage.js';
+import type { DbService } from './db.js';
+import type { MailService } from './mail.js';
+import type { VideoProcessor } from './processor.js';
+import { finalizeRenderSuccess } from './finalize.js';
+import { packageMediaHls } from './hls.js';
+import { renderFfmpegVariants, resolveOutputs } from './outputs.js';
+import { resolveEncoding } from './encoding-profiles.js';
+import type { ProgressCallback } from './progress.js';
+import {
+    resolveMotionPresets,
+    resolvePacingStyle,
+    TRANSITION_OVERLAP_FRAMES_BY_STYLE,
+} from './remotion-render.js';
+import type { RemotionJobPayload } from './remotion-render.js';
+
+const REMOTION_FPS = 30;
+const DEFAULT_FFMPEG_PRESET = 'veryfast';
+
+export interface RemotionFallbackParams {
+    payload: RemotionJobPayload;
+    storage: StorageService;
+    db: DbService;
+    mailer: MailService;
+    processor: VideoProcessor;
+    jobId?: string;
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
+}
+
+/**
+ * Render a Remotion job with the local FFmpeg pipeline (used when Lambda is unavailable).
+ * Maps motion_presets onto the Ken Burns effects and pacing_style onto the xfade duration,
+ * then uploads and finalizes exactly like the Lambda path. Returns the result blob id.
+ */
+export async function runRemotionFfmpegFallback(params: RemotionFallbackParams): Promise<string> {
+    const { payload, storage, db, mailer, processor, jobId, signal, onProgress } = params;
+    const { mediaId, stepId, userId, assets, options, outputs } = payload;
+    const hints = options.rendering_hints ?? {};
+    const workDir = join(tmpdir(), `remotion-fallback-${jobId ?? mediaId}`);
+
+    try {
+        if (!existsSync(workDir)) {
+            mkdirSync(workDir, { recursive: true });
+        }
+
+        console.log(`[RemotionFallback] 📥 Downloading assets for media ${mediaId} to ${workDir}...`);
+        const audioPath = join(workDir, 'audio.mp3');
+        const captionExt = assets.caption.endsWith('.ass') ? 'ass' : assets.caption.endsWith('.json') ? 'json' : 'srt';
+        const captionPath = join(workDir, `captions.${captionExt}`);
+        const imagePaths = assets.images.map((_, i) => join(workDir, `image_${i}.jpg`));
+
+        let musicPath: string | undefined;
+        if (assets.music) {
+            if (await storage.objectExists(assets.music)) {
+                musicPath = join(workDir, 'music.mp3');
+            } else {
+                console.warn(`[RemotionFallback] Music asset not found in current storage, skipping background music for media ${mediaId}`);
+            }
+        }
+
+        await Promise.all([
+            storage.downloadToFile(assets.audio, audioPath, signal),
+            storage.downloadToFile(assets.caption, captionPath, signal),
+            ...assets.images.map((id, i) => storage.downloadToFile(id, imagePaths[i]!, signal)),
+            ...(assets.music && musicPath ? [storage.downloadToFile(assets.music, musicPath, signal)] : []),
+        ]);
+
+        const pacingStyle = resolvePacingStyle(hints);
+        const motionPresets = resolveMotionPresets(hints, imagePaths.length);
+        const transitionDuration = TRANSITION_OVERLAP_FRAMES_BY_STYLE[pacingStyle] / REMOTION_FPS;
+
+        console.log(`[RemotionFallback] 🎬 Rendering media ${mediaId} with FFmpeg (pacing=${pacingStyle}, ${imagePaths.length} images)...`);
+        const variants = resolveOutputs(outputs, hints, userId, mediaId);
+        const outputPaths = await renderFfmpegVariants(processor, storage, variants, workDir, {
+            assetPaths: imagePaths,
+            audioPath,
+            captionPath,
+            preset: options.preset || DEFAULT_FFMPEG_PRESET,
+            rendering_hints: hints,
+            musicPath,
+            musicVolume: hints.musicVolume,
+            watermark: payload.monetization?.watermark,
+            encoding: resolveEncoding(payload.encoding, payload.plan, 'RemotionFallback'),
+            motionPresets,
+            transitionDuration,
+            signal,
+            onProgress,
+        }, 'RemotionFallback');
+
+        const resultBlobId = variants[0]!.blobId;
+        const hlsPlaylistKey = payload.hls
+            ? await packageMediaHls({ storage, input: outputPaths[0]!, userId, mediaId, signal, logTag: 'RemotionFallback' })
+            : undefined;
+        await finalizeRenderSuccess({
+            mediaId,
+            stepId,
+            resultBlobId,
+            variants: outputs ? variants : undefined,
+            hlsPlaylistKey,
+            db,
+            mailer,
+            storage,
+        });
+        return resultBlobId;
+    } finally {
+        try {
+            if (existsSync(workDir)) rmSync(workDir, { recursive: true, force: true });
+        } catch (cleanupErr) {
+            console.error(`[RemotionFallback] ⚠️ Cleanup failed for ${workDir}:`, cleanupErr);
+        }
+    }
+}
@@ -1,12 +1,11 @@
-import { renderMediaOnLambda, getRenderProgress, presignUrl } from '@remotion/lambda';
-import { Readable } from 'node:stream';
 import type { StorageService } from './storage.js';
 import type { DbService } from './db.js';
 import type { MailService } from './mail.js';
 import { finalizeProjectSuccess } from './finalize.js';
+import { LambdaRenderRunner } from './lambda-render-runner.js';
+import type { ProgressCallback } from './progress.js';
+import { RenderError } from './render-errors.js';
 
-const REMOTION_POLL_TIMEOUT_MS = 20 * 60 * 1000; // 20 minutes
-const REMOTION_POLL_INTERVAL_MS = 3000;
 const DEFAULT_COMPOSITION_ID = 'KineticTypographyComposition';
 
 /** Ensure each scene has words (array), rhythm, transitionIn so Remotion never hits undefined. */
@@ -57,24 +56,21 @@ export interface KineticRenderParams {
     storage: StorageService;
     db: DbService;
     mailer: MailService;
+    /** Cancellation for this job; see CancellationService. */
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
 }
 
 export async function runKineticRemotionRender(params: KineticRenderParams): Promise<string> {
-    const { payload, storage, db, mailer } = params;
+    const { payload, storage, db, mailer, signal, onProgress } = params;
     const { projectId, userId, inputProps: rawInputProps } = payload;
 
     if (!rawInputProps || typeof rawInputProps !== 'object') {
-        throw new Error('Kinetic job missing inputProps');
+        throw new RenderError('INVALID_PAYLOAD', 'Kinetic job missing inputProps');
     }
     const inputProps = rawInputProps as KineticJobPayload['inputProps'];
 
-    const serveUrl = process.env.REMOTION_SERVE_URL;
-    const functionName = process.env.REMOTION_LAMBDA_FUNCTION_NAME;
-    const region = (process.env.REMOTION_LAMBDA_REGION || 'us-east-1') as import('@remotion/lambda').AwsRegion;
-
-    if (!serveUrl || !functionName) {
-        throw new Error('REMOTION_SERVE_URL and REMOTION_LAMBDA_FUNCTION_NAME must be set');
-    }
+    const runner = new LambdaRenderRunner(storage, { signal, onProgress });
 
     const width = inputProps.width ?? 1080;
     const height = inputProps.height ?? 1920;
@@ -90,7 +86,8 @@ export async function runKineticRemotionRender(params: KineticRenderParams): Pro
 
     const effectiveCompositionId = isGraphicMotion ? compositionId : (useLegacy ? DEFAULT_COMPOSITION_ID : compositionId);
     if (!isGraphicMotion && !useLegacy) {
-        throw new Error(
+        throw new RenderError(
+            'INVALID_PAYLOAD',
             'Kinetic job has no valid timeline: need either graphicMotionTimeline.scenes (array) or timeline (array)',
         );
     }
@@ -98,8 +95,7 @@ export async function runKineticRemotionRender(params: KineticRenderParams): Pro
     const blockCount = isGraphicMotion
         ? (graphicScenes as unknown[]).length
         : (legacyTimeline?.length ?? 0);
-    console.log(`[Kinetic] Invoking Lambda for project ${projectId} (${effectiveCompositionId}, ${blockCount} scenes/blocks)...`);
-    const framesPerLambda = parseInt(process.env.REMOTION_FRAMES_PER_LAMBDA ?? '200', 10) || 200;
+    console.log(`[Kinetic] Rendering project ${projectId} on ${runner.rendererKind} (${effectiveCompositionId}, ${blockCount} scenes/blocks)...`);
 
     const graphicMotionTimelinePayload = isGraphicMotion && rawTimeline
         ? { ...rawTimeline, scenes: graphicScenes }
@@ -154,94 +150,18 @@ export async function runKineticRemotionRender(params: KineticRenderParams): Pro
             },
         };
 
-    const { renderId, bucketName } = await renderMediaOnLambda({
-        region,
-        functionName,
-        serveUrl,
+    return runner.run({
         composition: effectiveCompositionId,
         inputProps: lambdaInputProps,
-        codec: 'h264',
-        imageFormat: 'jpeg',
-        maxRetries: 1,
         outName: `kinetic-${projectId}.mp4`,
-        framesPerLambda,
+        outputKey: `users/${userId}/projects/${projectId}/output.mp4`,
+        logTag: '[Kinetic]',
+        finalize: (resultBlobId) => finalizeProjectSuccess({
+            projectId,
+            resultBlobId,
+            db,
+            storage,
+            mailer,
+        }),
     });
-
-    console.log(`[Kinetic] Lambda started renderId=${renderId}, polling...`);
-    const deadline = Date.now() + REMOTION_POLL_TIMEOUT_MS;
-    let pollCount = 0;
-
-    while (Date.now() < deadline) {
-        const progress = await getRenderProgress({
-            renderId,
-            bucketName,
-            functionName,
-            region,
-        });
-
-        if (progress.done) {
-            const outKey = (progress as { outKey?: string }).outKey;
-            const outputFile = progress.outputFile;
-            const objectKey =
-                outKey ?? (typeof outputFile === 'string' && !outputFile.startsWith('http') ? outputFile : undefined);
-            if (!objectKey) {
-                throw new Error('Remotion render finished but no output key');
-            }
-
-            const downloadUrl = await presignUrl({
-                region,
-                bucketName,
-                objectKey,
-                expiresInSeconds: 900,
-            });
-
-            const maxDownloadAttempts = 3;
-            const downloadDelayMs = 2000;
-            let response: Response | null = null;
-            for (let attempt = 1; attempt <= maxDownloadAttempts; attempt++) {
-                response = await fetch(downloadUrl);
-                if (response.ok) break;
-                if (response.status === 404 && attempt < maxDownloadAttempts) {
-                    await new Promise((r) => setTimeout(r, downloadDelayMs));
-                } else break;
-            }
-            if (!response || !response.ok) {
-                throw new Error(`Failed to download render: ${response?.status ?? 'unknown'}`);
-            }
-
-            const buffer = Buffer.from(await response.arrayBuffer());
-            const nodeStream = Readable.from(buffer);
-            const resultBlobId = `users/${userId}/projects/${projectId}/output.mp4`;
-            await storage.upload(resultBlobId, nodeStream);
-
-            await finalizeProjectSuccess({
-                projectId,
-                resultBlobId,
-                db,
-                storage,
-                mailer,
-            });
-            return resultBlobId;
-        }
-
-        if (progress.fatalErrorEncountered) {
-            const errors = (progress as { errors?: Array<{ message?: string; stack?: string }> }).errors;
-            const firstError = Array.isArray(errors) && errors.length > 0 ? errors[0] : null;
-            const errMsg = firstError?.message ?? (progress as { errorMessage?: string }).errorMessage ?? 'Kinetic render failed';
-            console.error('[Kinetic] Lambda fatal error:', errMsg);
-            if (Array.isArray(errors) && errors.length > 0) {
-                errors.forEach((e, i) => console.error(`[Kinetic] Lambda error[${i}]:`, e?.message ?? e));
-            }
-            throw new Error(errMsg);
-        }
-
-        pollCount += 1;
-        const overall = (progress as { overallProgress?: number }).overallProgress;
-        if (pollCount === 1 || pollCount % 10 === 0) {
-            console.log(`[Kinetic] Poll #${pollCount}${typeof overall === 'number' ? ` progress=${Math.round(overall * 100)}%` : ''}`);
-        }
-        await new Promise((r) => setTimeout(r, REMOTION_POLL_INTERVAL_MS));
-    }
-
-    throw new Error('Kinetic Remotion render timeout (20 minutes)');
 }
@@ -1,5 +1,3 @@
-import { renderMediaOnLambda, getRenderProgress, presignUrl } from '@remotion/lambda';
-import { Readable } from 'node:stream';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { mkdirSync, existsSync, rmSync } from 'node:fs';
@@ -8,11 +6,16 @@ import type { StorageService } from './storage.js';
 import type { DbService } from './db.js';
 import type { MailService } from './mail.js';
 import { finalizeRenderSuccess } from './finalize.js';
+import { packageMediaHls } from './hls.js';
 import { runBeatSync } from './beat-sync/index.js';
 import { buildScenes } from './engines/PacingEngine.js';
-
-const REMOTION_POLL_TIMEOUT_MS = 20 * 60 * 1000; // 20 minutes
-const REMOTION_POLL_INTERVAL_MS = 3000;
+import { LambdaRenderRunner } from './lambda-render-runner.js';
+import { remotionVariants, resolveOutputs } from './outputs.js';
+import type { OutputSpec } from './outputs.js';
+import type { EncodingSelection } from './encoding-profiles.js';
+import type { ProgressCallback } from './progress.js';
+import type { CaptionsHints } from './processor.js';
+import { getConfig } from './config.js';
 const ASSET_SIGNED_URL_EXPIRES_SEC = 7200; // 2 hours for Lambda to fetch assets
 const FPS = 30;
 const MIN_DURATION_FRAMES = 30 * FPS;
@@ -88,7 +91,7 @@ export interface RemotionJobPayload {
         rendering_hints?: {
             width?: number;
             height?: number;
-            captions?: unknown;
+            captions?: CaptionsHints;
             language?: string;
             musicVolume?: number;
             motion_preset?: string;
@@ -99,6 +102,45 @@ export interface RemotionJobPayload {
     };
     /** Set by backend from user plan. Default: no watermark for backward compatibility. */
     monetization?: { watermark: WatermarkConfig };
+    /** Sizes to render (e.g. 9:16, 1:1, 16:9), primary first; default: the one rendering_hints size. */
+    outputs?: OutputSpec[];
+    /** Encoding profile and codec for the FFmpeg fallback; capped by `plan` (see encoding-profiles.ts). */
+    encoding?: EncodingSelection;
+    /** Billing plan from the backend. */
+    plan?: string;
+    /** Also package the primary output as an HLS ladder (see hls.ts) and record its master playlist. */
+    hls?: boolean;
+}
+
+type RemotionRenderingHints = NonNullable<RemotionJobPayload['options']['rendering_hints']>;
+
+const DEFAULT_MOTION_PRESETS = ['kenBurns', 'cinematicZoom', 'documentarySlowPan'];
+
+/** Transition overlap (frames at 30fps) between consecutive scenes, per pacing style. */
+export const TRANSITION_OVERLAP_FRAMES_BY_STYLE: Record<PacingStyle, number> = {
+    smooth: 20,
+    rhythmic: 16,
+    viral: 12,
+    dramatic: 16,
+};
+
+/** One motion preset per image: explicit list (cycled), single preset, or the default rotation. */
+export function resolveMotionPresets(hints: RemotionRenderingHints, imageCount: number): string[] {
+    const length = Math.max(imageCount, 1);
+    if (Array.isArray(hints.motion_presets) && hints.motion_presets.length > 0) {
+        const list = hints.motion_presets as string[];
+        return Array.from({ length }, (_, i) => list[i % list.length] ?? DEFAULT_MOTION_PRESETS[0]!);
+    }
+    if (typeof hints.motion_preset === 'string' && hints.motion_preset) {
+        return Array.from({ length }, () => hints.motion_preset as string);
+    }
+    return Array.from({ length }, (_, i) => DEFAULT_MOTION_PRESETS[i % DEFAULT_MOTION_PRESETS.length] ?? DEFAULT_MOTION_PRESETS[0]!);
+}
+
+export function resolvePacingStyle(hints: RemotionRenderingHints): PacingStyle {
+    return hints.pacing_style === 'rhythmic' || hints.pacing_style === 'viral' || hints.pacing_style === 'dramatic'
+        ? hints.pacing_style
+        : 'smooth';
 }
 
 export interface RemotionRenderParams {
@@ -106,52 +148,31 @@ export interface RemotionRenderParams {
     storage: StorageService;
     db: DbService;
     mailer: MailService;
+    /** Cancellation for this job; see CancellationService. */
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
 }
 
 export async function runRemotionRender(params: RemotionRenderParams): Promise<string> {
-    const { payload, storage, db, mailer } = params;
-    const { mediaId, stepId, userId, assets, options } = payload;
+    const { payload, storage, db, mailer, signal, onProgress } = params;
+    const { mediaId, stepId, userId, assets, options, outputs } = payload;
 
-    const serveUrl = process.env.REMOTION_SERVE_URL;
-    const functionName = process.env.REMOTION_LAMBDA_FUNCTION_NAME;
-    const region = (process.env.REMOTION_LAMBDA_REGION || 'us-east-1') as import('@remotion/lambda').AwsRegion;
-    const composition = process.env.REMOTION_COMPOSITION_ID || 'ReelComposition';
-
-    if (!serveUrl || !functionName) {
-        throw new Error('REMOTION_SERVE_URL and REMOTION_LAMBDA_FUNCTION_NAME must be set');
-    }
+    const composition = getConfig().remotion.compositionId;
+    const runner = new LambdaRenderRunner(storage, { signal, onProgress });
 
     const hints = options.rendering_hints ?? {};
-    const width = hints.width ?? 720;
-    const height = hints.height ?? 1280;
+    const variants = resolveOutputs(outputs, hints, userId, mediaId);
+    const { width, height } = variants[0]!;
 
     const imageCount = assets.images?.length ?? 0;
-    const defaultPresetList = ['kenBurns', 'cinematicZoom', 'documentarySlowPan'];
-    let motionPresets: string[];
-    if (Array.isArray(hints.motion_presets) && hints.motion_presets.length > 0) {
-        const list = hints.motion_presets as string[];
-        motionPresets = Array.from({ length: Math.max(imageCount, 1) }, (_, i) => list[i % list.length] ?? defaultPresetList[0]!);
-    } else if (typeof hints.motion_preset === 'string' && hints.motion_preset) {
-        motionPresets = Array.from({ length: Math.max(imageCount, 1) }, () => hints.motion_preset as string);
-    } else {
-        motionPresets = Array.from({ length: Math.max(imageCount, 1) }, (_, i) => defaultPresetList[i % defaultPresetList.length] ?? defaultPresetList[0]!);
-    }
+    const motionPresets = resolveMotionPresets(hints, imageCount);
 
     const motionEmotion = typeof hints.motion_emotion === 'string' && hints.motion_emotion
         ? hints.motion_emotion
         : undefined;
 
-    const pacingStyle: PacingStyle = (hints.pacing_style === 'rhythmic' || hints.pacing_style === 'viral' || hints.pacing_style === 'dramatic')
-        ? hints.pacing_style
-        : 'smooth';
-
-    const transitionOverlapByStyle: Record<PacingStyle, number> = {
-        smooth: 20,
-        rhythmic: 16,
-        viral: 12,
-        dramatic: 16,
-    };
-    const transitionOverlap = transitionOverlapByStyle[pacingStyle];
+    const pacingStyle = resolvePacingStyle(hints);
+    const transitionOverlap = TRANSITION_OVERLAP_FRAMES_BY_STYLE[pacingStyle];
 
     console.log(`[Remotion] Building signed URLs for media ${mediaId} (audio, caption, ${imageCount} images)...`);
     const [audioUrl, captionUrl, ...imageUrlsRaw] = await Promise.all([
@@ -274,101 +295,30 @@ export async function runRemotionRender(params: RemotionRenderParams): Promise<s
         } : {}),
     };
 
-    // Use higher framesPerLambda to reduce concurrent Lambda invocations (avoids "Rate Exceeded" on low account limits)
-    const framesPerLambda = parseInt(process.env.REMOTION_FRAMES_PER_LAMBDA ?? '200', 10) || 200;
-    console.log(`[Remotion] Invoking Lambda (${functionName}) for media ${mediaId} (framesPerLambda=${framesPerLambda})...`);
-    const { renderId, bucketName } = await renderMediaOnLambda({
-        region,
-        functionName,
-        serveUrl,
+    return runner.run({
         composition,
         inputProps,
-        codec: 'h264',
-        imageFormat: 'jpeg',
-        maxRetries: 1,
         outName: `render-${mediaId}.mp4`,
-        framesPerLambda,
-    });
-    console.log(`[Remotion] Lambda started renderId=${renderId}, polling progress every ${REMOTION_POLL_INTERVAL_MS / 1000}s...`);
-
-    const deadline = Date.now() + REMOTION_POLL_TIMEOUT_MS;
-    let pollCount = 0;
-
-    while (Date.now() < deadline) {
-        const progress = await getRenderProgress({
-            renderId,
-            bucketName,
-            functionName,
-            region,
-        });
-
-        if (progress.done) {
-            // Remotion: outputFile can be a URL; outKey is the S3 key. presignUrl() requires the key, not a URL.
-            const outKey = (progress as { outKey?: string }).outKey;
-            const outputFile = progress.outputFile;
-            const objectKey = outKey ?? (typeof outputFile === 'string' && !outputFile.startsWith('http') ? outputFile : undefined);
-            if (!objectKey) {
-                throw new Error('Remotion render finished but no output key (outKey or non-URL outputFile)');
-            }
-            console.log(`[Remotion] Render done, downloading output (bucket=${bucketName}, key=${objectKey}) and uploading to storage...`);
-            const downloadUrl = await presignUrl({
-                region,
-                bucketName,
-                objectKey,
-                expiresInSeconds: 900,
-            });
-
-            // Download from Remotion Lambda's S3 (temporary). Retry a few times for S3 eventual consistency.
-            const maxDownloadAttempts = 3;
-            const downloadDelayMs = 2000;
-            let response: Response | null = null;
-            for (let attempt = 1; attempt <= maxDownloadAttempts; attempt++) {
-                response = await fetch(downloadUrl);
-                if (response.ok) break;
-                if (response.status === 404 && attempt < maxDownloadAttempts) {
-                    console.warn(`[Remotion] Download attempt ${attempt} got 404, retrying in ${downloadDelayMs / 1000}s...`);
-                    await new Promise((r) => setTimeout(r, downloadDelayMs));
-                } else {
-                    break;
-                }
-            }
-            if (!response || !response.ok) {
-                throw new Error(
-                    `Failed to download render: ${response?.status ?? 'unknown'}. ` +
-                    `Ensure your AWS user has s3:GetObject on the Remotion bucket (${bucketName}).`
-                );
-            }
-            const buffer = Buffer.from(await response.arrayBuffer());
-            const nodeStream = Readable.from(buffer);
-            const resultBlobId = `users/${userId}/media/${mediaId}/video/render/final_render.mp4`;
-            await storage.upload(resultBlobId, nodeStream);
-
-            await finalizeRenderSuccess({
-                mediaId,
-                stepId,
-                resultBlobId,
-                db,
-                mailer,
+        outputKey: variants[0]!.blobId,
+        variants: remotionVariants(variants, inputProps, `render-${mediaId}.mp4`),
+        logTag: '[Remotion]',
+        finalize: async (resultBlobId) => finalizeRenderSuccess({
+            mediaId,
+            stepId,
+            resultBlobId,
+            variants: outputs ? variants : undefined,
+            // The packager streams the uploaded MP4 back through a signed URL (the runner keeps no local copy).
+            hlsPlaylistKey: payload.hls ? await packageMediaHls({
                 storage,
-            });
-            return resultBlobId;
-        }
-
-        if (progress.fatalErrorEncountered) {
-            const errMsg = (progress as { errorMessage?: string }).errorMessage || 'Remotion render failed';
-            const errors = (progress as { errors?: unknown[] }).errors;
-            console.error('[Remotion] Lambda reported fatal error:', errMsg);
-            if (errors?.length) console.error('[Remotion] Errors detail:', JSON.stringify(errors, null, 2));
-            throw new Error(errMsg);
-        }
-
-        pollCount += 1;
-        const overall = (progress as { overallProgress?: number }).overallProgress;
-        if (pollCount === 1 || pollCount % 10 === 0 || (typeof overall === 'number' && overall >= 0)) {
-            console.log(`[Remotion] Poll #${pollCount}${typeof overall === 'number' ? ` progress=${Math.round(overall * 100)}%` : ''}`);
-        }
-        await new Promise((r) => setTimeout(r, REMOTION_POLL_INTERVAL_MS));
-    }
-
-    throw new Error('Remotion render timeout (20 minutes)');
+                input: await storage.getSignedUrl(resultBlobId, ASSET_SIGNED_URL_EXPIRES_SEC),
+                userId,
+                mediaId,
+                signal,
+                logTag: 'Remotion',
+            }) : undefined,
+            db,
+            mailer,
+            storage,
+        }),
+    });
 }
@@ -0,0 +1,264 @@
+import { renderMediaOnLambda, getRenderProgress, presignUrl, deleteRender } from '@remotion/lambda';
+import type { AwsRegion } from '@remotion/lambda';
+import { makeCancelSignal, renderMedia, selectComposition } from '@remotion/renderer';
+import { dirname, join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdirSync, rmSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import { recordLambdaPoll } from './metrics.js';
+import { getConfig } from './config.js';
+
+export const DEFAULT_POLL_INTERVAL_MS = 3000;
+export const DEFAULT_RENDER_TIMEOUT_MS = 20 * 60 * 1000; // 20 minutes
+
+export type RemotionRendererKind = 'lambda' | 'local';
+
+/** Render-phase events; `progress` is 0–1 (Lambda overallProgress or local renderMedia progress). */
+export type RendererEvent =
+    | { type: 'started'; renderer: RemotionRendererKind; renderId?: string }
+    | { type: 'progress'; progress: number; poll?: number };
+
+export interface RemotionRenderRequest {
+    composition: string;
+    inputProps: Record<string, unknown>;
+    /** Output file name, e.g. `render-<mediaId>.mp4`. */
+    outName: string;
+    /** Log prefix of the calling job type, e.g. `[Kinetic]`. */
+    logTag: string;
+    /** Give up after this long (Lambda: polling deadline, local: cancels renderMedia). */
+    timeoutMs: number;
+    /** Lambda only: delay between getRenderProgress calls. */
+    pollIntervalMs: number;
+    onEvent?: (event: RendererEvent) => void;
+    /** Cancels the render (Lambda: stop polling and delete the render; local: cancel renderMedia). */
+    signal?: AbortSignal;
+}
+
+/** Where the finished MP4 lives: a presigned URL (Lambda bucket) or a local file (local render). */
+export type RemotionRenderOutput =
+    | { type: 'url'; url: string; bucketName: string; objectKey: string }
+    | { type: 'file'; path: string };
+
+export interface RemotionRenderer {
+    readonly kind: RemotionRendererKind;
+    /** Throws when the backend is missing configuration; checked at boot and before each render. */
+    assertConfigured(): void;
+    render(request: RemotionRenderRequest): Promise<RemotionRenderOutput>;
+}
+
+/** Why Lambda could not produce a render. The worker falls back to the local FFmpeg pipeline for these. */
+export type LambdaUnavailableReason = 'not-configured' | 'rate-limited' | 'fatal-error';
+
+export class LambdaUnavailableError extends Error {
+    readonly reason: LambdaUnavailableReason;
+
+    constructor(message: string, reason: LambdaUnavailableReason) {
+        super(message);
+        this.name = 'LambdaUnavailableError';
+        this.reason = reason;
+    }
+}
+
+/** AWS throttling surfaces as TooManyRequestsException / "Rate Exceeded" depending on the SDK path. */
+function isLambdaRateLimitError(err: unknown): boolean {
+    const name = (err as { name?: string } | null)?.name ?? '';
+    const msg = err instanceof Error ? err.message : String(err);
+    return /TooManyRequests|Rate Exceeded|ConcurrentInvocationLimitExceeded|Throttl/i.test(`${name} ${msg}`);
+}
+
+export interface LambdaRendererConfig {
+    serveUrl?: string;
+    functionName?: string;
+    region: AwsRegion;
+    framesPerLambda: number;
+}
+
+/** Renders on Remotion Lambda: invoke, poll getRenderProgress, presign the output in the Remotion bucket. */
+export class LambdaRemotionRenderer implements RemotionRenderer {
+    readonly kind = 'lambda' as const;
+
+    constructor(private readonly config: LambdaRendererConfig) {}
+
+    assertConfigured(): void {
+        if (!this.config.serveUrl || !this.config.functionName) {
+            throw new LambdaUnavailableError('REMOTION_SERVE_URL and REMOTION_LAMBDA_FUNCTION_NAME must be set', 'not-configured');
+        }
+    }
+
+    async render(request: RemotionRenderRequest): Promise<RemotionRenderOutput> {
+        this.assertConfigured();
+        const { region, framesPerLambda } = this.config;
+        const serveUrl = this.config.serveUrl!;
+        const functionName = this.config.functionName!;
+        const { composition, inputProps, outName, logTag, timeoutMs, pollIntervalMs, onEvent, signal } = request;
+
+        // Use higher framesPerLambda to reduce concurrent Lambda invocations (avoids "Rate Exceeded" on low account limits)
+        console.log(`${logTag} Invoking Lambda (${functionName}) for ${composition} (framesPerLambda=${framesPerLambda})...`);
+        let invocation: Awaited<ReturnType<typeof renderMediaOnLambda>>;
+        try {
+            invocation = await renderMediaOnLambda({
+                region,
+                functionName,
+                serveUrl,
+                composition,
+                inputProps,
+                codec: 'h264',
+                imageFormat: 'jpeg',
+                maxRetries: 1,
+                outName,
+                framesPerLambda,
+            });
+        } catch (err: unknown) {
+            if (isLambdaRateLimitError(err)) {
+                const msg = err instanceof Error ? err.message : String(err);
+                throw new LambdaUnavailableError(`Remotion Lambda rate limited: ${msg}`, 'rate-limited');
+            }
+            throw err;
+        }
+        const { renderId, bucketName } = invocation;
+        onEvent?.({ type: 'started', renderer: this.kind, renderId });
+
+        const deadline = Date.now() + timeoutMs;
+        let pollCount = 0;
+
+        while (Date.now() < deadline) {
+            if (signal?.aborted) {
+                console.warn(`${logTag} Cancelled, deleting Lambda render ${renderId}...`);
+                try {
+                    await deleteRender({ region, bucketName, renderId });
+                } catch (err: unknown) {
+                    const msg = err instanceof Error ? err.message : String(err);
+                    console.warn(`${logTag} Failed to delete Lambda render ${renderId}: ${msg}`);
+                }
+                throw signal.reason;
+            }
+
+            const progress = await getRenderProgress({
+                renderId,
+                bucketName,
+                functionName,
+                region,
+            });
+            recordLambdaPoll(composition);
+
+            if (progress.done) {
+                // Remotion: outputFile can be a URL; outKey is the S3 key. presignUrl() requires the key, not a URL.
+                const outKey = (progress as { outKey?: string }).outKey;
+                const outputFile = progress.outputFile;
+                const objectKey = outKey ?? (typeof outputFile === 'string' && !outputFile.startsWith('http') ? outputFile : undefined);
+                if (!objectKey) {
+                    throw new Error('Remotion render finished but no output key (outKey or non-URL outputFile)');
+                }
+                console.log(`${logTag} Render done (bucket=${bucketName}, key=${objectKey})`);
+                const url = await presignUrl({
+                    region,
+                    bucketName,
+                    objectKey,
+                    expiresInSeconds: 900,
+                });
+                return { type: 'url', url, bucketName, objectKey };
+            }
+
+            if (progress.fatalErrorEncountered) {
+                const errors = (progress as { errors?: Array<{ message?: string }> }).errors;
+                const errMsg = (progress as { errorMessage?: string }).errorMessage
+                    || errors?.[0]?.message
+                    || 'Remotion render failed';
+                console.error(`${logTag} Lambda reported fatal error:`, errMsg);
+                if (errors?.length) console.error(`${logTag} Errors detail:`, JSON.stringify(errors, null, 2));
+                throw new LambdaUnavailableError(errMsg, 'fatal-error');
+            }
+
+            pollCount += 1;
+            const overall = (progress as { overallProgress?: number }).overallProgress;
+            onEvent?.({ type: 'progress', progress: typeof overall === 'number' ? overall : 0, poll: pollCount });
+            await new Promise((r) => setTimeout(r, pollIntervalMs));
+        }
+
+        throw new Error(`Remotion render timeout (${Math.round(timeoutMs / 60000)} minutes)`);
+    }
+}
+
+export interface LocalRendererConfig {
+    /** Bundled Remotion site: an http(s) serve URL or a local directory produced by `remotion bundle`. */
+    serveUrl?: string;
+    /** Browser tabs rendering in parallel; null lets Remotion pick from the CPU count. */
+    concurrency: number | null;
+}
+
+/** Renders in this process with @remotion/renderer (headless Chrome + FFmpeg) into a temp file. */
+export class LocalRemotionRenderer implements RemotionRenderer {
+    readonly kind = 'local' as const;
+
+    constructor(private readonly config: LocalRendererConfig) {}
+
+    assertConfigured(): void {
+        if (!this.config.serveUrl) {
+            throw new Error('REMOTION_LOCAL_SERVE_URL (or REMOTION_SERVE_URL) must be set for REMOTION_RENDERER=local');
+        }
+    }
+
+    async render(request: RemotionRenderRequest): Promise<RemotionRenderOutput> {
+        this.assertConfigured();
+        const { concurrency } = this.config;
+        const { composition, inputProps, outName, logTag, timeoutMs, onEvent, signal } = request;
+        const configuredUrl = this.config.serveUrl!;
+        const serveUrl = /^https?:\/\//.test(configuredUrl) ? configuredUrl : resolve(configuredUrl);
+
+        console.log(`${logTag} Rendering ${composition} locally from ${serveUrl}...`);
+        const selected = await selectComposition({ serveUrl, id: composition, inputProps });
+
+        const outputLocation = join(tmpdir(), `remotion-local-${randomUUID()}`, outName);
+        mkdirSync(dirname(outputLocation), { recursive: true });
+
+        const { cancelSignal, cancel } = makeCancelSignal();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            cancel();
+        }, timeoutMs);
+        signal?.addEventListener('abort', cancel, { once: true });
+
+        onEvent?.({ type: 'started', renderer: this.kind });
+        try {
+            await renderMedia({
+                composition: selected,
+                serveUrl,
+                codec: 'h264',
+                imageFormat: 'jpeg',
+                inputProps,
+                outputLocation,
+                concurrency,
+                cancelSignal,
+                onProgress: ({ progress }) => onEvent?.({ type: 'progress', progress }),
+            });
+        } catch (err) {
+            rmSync(dirname(outputLocation), { recursive: true, force: true });
+            if (signal?.aborted) throw signal.reason;
+            if (timedOut) throw new Error(`Remotion render timeout (${Math.round(timeoutMs / 60000)} minutes)`);
+            throw err;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+        }
+        console.log(`${logTag} Local render done: ${outputLocation}`);
+        return { type: 'file', path: outputLocation };
+    }
+}
+
+/** Build the renderer selected by REMOTION_RENDERER (`lambda` by default, or `local`). */
+export function createRemotionRenderer(): RemotionRenderer {
+    const remotion = getConfig().remotion;
+    if (remotion.renderer === 'local') {
+        return new LocalRemotionRenderer({
+            serveUrl: remotion.localServeUrl ?? remotion.serveUrl,
+            concurrency: remotion.localConcurrency,
+        });
+    }
+    return new LambdaRemotionRenderer({
+        serveUrl: remotion.serveUrl,
+        functionName: remotion.lambdaFunctionName,
+        region: remotion.lambdaRegion as AwsRegion,
+        framesPerLambda: remotion.framesPerLambda,
+    });
+}
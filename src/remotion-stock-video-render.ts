@@ -1,13 +1,16 @@
-import { renderMediaOnLambda, getRenderProgress, presignUrl } from '@remotion/lambda';
-import { Readable } from 'node:stream';
 import type { StorageService } from './storage.js';
 import type { DbService } from './db.js';
 import type { MailService } from './mail.js';
 import { finalizeRenderSuccess } from './finalize.js';
+import { packageMediaHls } from './hls.js';
 import type { WatermarkConfig } from './remotion-render.js';
+import { LambdaRenderRunner } from './lambda-render-runner.js';
+import { remotionVariants, resolveOutputs } from './outputs.js';
+import type { OutputSpec } from './outputs.js';
+import type { ProgressCallback } from './progress.js';
+import type { CaptionsHints } from './processor.js';
+import { getConfig } from './config.js';
 
-const REMOTION_POLL_TIMEOUT_MS = 20 * 60 * 1000; // 20 minutes
-const REMOTION_POLL_INTERVAL_MS = 3000;
 const ASSET_SIGNED_URL_EXPIRES_SEC = 7200;
 const FPS = 30;
 const MIN_DURATION_FRAMES = 30 * FPS;
@@ -31,12 +34,16 @@ export interface StockVideoJobPayload {
         rendering_hints?: {
             width?: number;
             height?: number;
-            captions?: unknown;
+            captions?: CaptionsHints;
             language?: string;
             musicVolume?: number;
         };
     };
     monetization?: { watermark: WatermarkConfig };
+    /** Sizes to render (e.g. 9:16, 1:1, 16:9), primary first; default: the one rendering_hints size. */
+    outputs?: OutputSpec[];
+    /** Also package the primary output as an HLS ladder (see hls.ts) and record its master playlist. */
+    hls?: boolean;
 }
 
 export interface StockVideoRenderParams {
@@ -44,6 +51,9 @@ export interface StockVideoRenderParams {
     storage: StorageService;
     db: DbService;
     mailer: MailService;
+    /** Cancellation for this job; see CancellationService. */
+    signal?: AbortSignal;
+    onProgress?: ProgressCallback;
 }
 
 export type CaptionEntry = {
@@ -69,21 +79,15 @@ async function fetchCaptionEntries(captionUrl: string): Promise<CaptionEntry[]>
 }
 
 export async function runStockVideoRemotionRender(params: StockVideoRenderParams): Promise<string> {
-    const { payload, storage, db, mailer } = params;
-    const { mediaId, stepId, userId, assets, options } = payload;
+    const { payload, storage, db, mailer, signal, onProgress } = params;
+    const { mediaId, stepId, userId, assets, options, outputs } = payload;
 
-    const serveUrl = process.env.REMOTION_SERVE_URL;
-    const functionName = process.env.REMOTION_LAMBDA_FUNCTION_NAME;
-    const region = (process.env.REMOTION_LAMBDA_REGION || 'us-east-1') as import('@remotion/lambda').AwsRegion;
-    const composition = process.env.REMOTION_STOCK_COMPOSITION_ID || 'StockVideoReelComposition';
-
-    if (!serveUrl || !functionName) {
-        throw new Error('REMOTION_SERVE_URL and REMOTION_LAMBDA_FUNCTION_NAME must be set');
-    }
+    const composition = getConfig().remotion.stockCompositionId;
+    const runner = new LambdaRenderRunner(storage, { signal, onProgress });
 
     const hints = options.rendering_hints ?? {};
-    const width = hints.width ?? 720;
-    const height = hints.height ?? 1280;
+    const variants = resolveOutputs(outputs, hints, userId, mediaId);
+    const { width, height } = variants[0]!;
     const captionConfig = (hints.captions as Record<string, unknown>) ?? {};
 
     console.log(`[StockVideoRemotion] Building signed URLs for media ${mediaId} (${assets.stockVideos.length} clips)...`);
@@ -166,97 +170,31 @@ export async function runStockVideoRemotionRender(params: StockVideoRenderParams
         },
     };
 
-    const framesPerLambda = parseInt(process.env.REMOTION_FRAMES_PER_LAMBDA ?? '200', 10) || 200;
-    console.log(`[StockVideoRemotion] Invoking Lambda (${functionName}) for media ${mediaId}...`);
-
-    const { renderId, bucketName } = await renderMediaOnLambda({
-        region,
-        functionName,
-        serveUrl,
+    console.log(`[StockVideoRemotion] Rendering media ${mediaId} on ${runner.rendererKind}...`);
+    return runner.run({
         composition,
         inputProps,
-        codec: 'h264',
-        imageFormat: 'jpeg',
-        maxRetries: 1,
         outName: `render-${mediaId}.mp4`,
-        framesPerLambda,
-    });
-
-    console.log(`[StockVideoRemotion] Lambda started renderId=${renderId}, polling...`);
-
-    const deadline = Date.now() + REMOTION_POLL_TIMEOUT_MS;
-    let pollCount = 0;
-
-    while (Date.now() < deadline) {
-        const progress = await getRenderProgress({
-            renderId,
-            bucketName,
-            functionName,
-            region,
-        });
-
-        if (progress.done) {
-            const outKey = (progress as { outKey?: string }).outKey;
-            const outputFile = progress.outputFile;
-            const objectKey = outKey ?? (typeof outputFile === 'string' && !outputFile.startsWith('http') ? outputFile : undefined);
-            if (!objectKey) {
-                throw new Error('Remotion render finished but no output key');
-            }
-
-            console.log(`[StockVideoRemotion] Render done, downloading output...`);
-            const downloadUrl = await presignUrl({
-                region,
-                bucketName,
-                objectKey,
-                expiresInSeconds: 900,
-            });
-
-            const maxDownloadAttempts = 3;
-            const downloadDelayMs = 2000;
-            let response: Response | null = null;
-            for (let attempt = 1; attempt <= maxDownloadAttempts; attempt++) {
-                response = await fetch(downloadUrl);
-                if (response.ok) break;
-                if (response.status === 404 && attempt < maxDownloadAttempts) {
-                    console.warn(`[StockVideoRemotion] Download attempt ${attempt} got 404, retrying...`);
-                    await new Promise((r) => setTimeout(r, downloadDelayMs));
-                } else {
-                    break;
-                }
-            }
-            if (!response || !response.ok) {
-                throw new Error(`Failed to download render: ${response?.status ?? 'unknown'}`);
-            }
-
-            const buffer = Buffer.from(await response.arrayBuffer());
-            const nodeStream = Readable.from(buffer);
-            const resultBlobId = `users/${userId}/media/${mediaId}/video/render/final_render.mp4`;
-            await storage.upload(resultBlobId, nodeStream);
-
-            await finalizeRenderSuccess({
-                mediaId,
-                stepId,
-                resultBlobId,
-                db,
-                mailer,
+        outputKey: variants[0]!.blobId,
+        variants: remotionVariants(variants, inputProps, `render-${mediaId}.mp4`),
+        logTag: '[StockVideoRemotion]',
+        finalize: async (resultBlobId) => finalizeRenderSuccess({
+            mediaId,
+            stepId,
+            resultBlobId,
+            variants: outputs ? variants : undefined,
+            // The packager streams the uploaded MP4 back through a signed URL (the runner keeps no local copy).
+            hlsPlaylistKey: payload.hls ? await packageMediaHls({
                 storage,
-            });
-            return resultBlobId;
-        }
-
-        if (progress.fatalErrorEncountered) {
-            const errMsg = (progress as { errorMessage?: string }).errorMessage || 'Remotion render failed';
-            console.error('[StockVideoRemotion] Lambda reported fatal error:', errMsg);
-            throw new Error(errMsg);
-        }
-
-        pollCount += 1;
-        const overall = (progress as { overallProgress?: number }).overallProgress;
-        if (pollCount === 1 || pollCount % 10 === 0) {
-            console.log(`[StockVideoRemotion] Poll #${pollCount}${typeof overall === 'number' ? ` progress=${Math.round(overall * 100)}%` : ''}`);
-        }
-        await new Promise((r) => setTimeout(r, REMOTION_POLL_INTERVAL_MS));
-    }
-
-    throw new Error('Stock video Remotion render timeout (20 minutes)');
+                input: await storage.getSignedUrl(resultBlobId, ASSET_SIGNED_URL_EXPIRES_SEC),
+                userId,
+                mediaId,
+                signal,
+                logTag: 'StockVideoRemotion',
+            }) : undefined,
+            db,
+            mailer,
+            storage,
+        }),
+    });
 }
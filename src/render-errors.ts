@@ -0,0 +1,107 @@
+import { UnrecoverableError } from 'bullmq';
+import type { BackoffStrategy } from 'bullmq';
+import type { LambdaUnavailableReason } from './remotion-renderer.js';
+
+/**
+ * Failure taxonomy. `retryable` codes are retried with backoff (see renderBackoff) while the job
+ * has attempts left; the others fail the job at once. `userMessage` is what the app shows, stored
+ * in `error_message` next to `error_code`; the detailed message stays in logs and the BullMQ job.
+ */
+export const RENDER_ERROR_CODES = {
+    INVALID_PAYLOAD: { retryable: false, userMessage: 'The render request was invalid. Please try again or contact support.' },
+    ASSET_NOT_FOUND: { retryable: false, userMessage: 'A file needed for this render could not be found.' },
+    INPUT_TOO_LARGE: { retryable: false, userMessage: 'The uploaded file is too large.' },
+    FFMPEG_FAILED: { retryable: false, userMessage: 'The video could not be encoded. Please try different media.' },
+    RENDERER_NOT_CONFIGURED: { retryable: false, userMessage: 'Rendering is temporarily unavailable.' },
+    INSUFFICIENT_CREDITS: { retryable: false, userMessage: 'You do not have enough credits for this render.' },
+    LAMBDA_RATE_LIMITED: { retryable: true, userMessage: 'The render service is busy. Please try again shortly.' },
+    LAMBDA_FAILED: { retryable: true, userMessage: 'The render failed. Please try again.' },
+    TIMEOUT: { retryable: true, userMessage: 'The render took too long and was stopped.' },
+    STORAGE_DOWNLOAD_FAILED: { retryable: true, userMessage: 'Files for this render could not be downloaded.' },
+    STORAGE_UPLOAD_FAILED: { retryable: true, userMessage: 'The finished video could not be saved.' },
+    DISK_FULL: { retryable: true, userMessage: 'The render service is busy. Please try again shortly.' },
+    INTERNAL: { retryable: true, userMessage: 'Something went wrong while rendering.' },
+} as const satisfies Record<string, { retryable: boolean; userMessage: string }>;
+
+export type RenderErrorCode = keyof typeof RENDER_ERROR_CODES;
+
+/** A classified failure; the message is prefixed with the code (`FFMPEG_FAILED: ...`). */
+export class RenderError extends Error {
+    readonly code: RenderErrorCode;
+    /** Last lines of ffmpeg stderr, when the failure came from an ffmpeg process. */
+    readonly stderr?: string;
+
+    constructor(code: RenderErrorCode, detail: string, opts: { cause?: unknown; stderr?: string } = {}) {
+        super(`${code}: ${detail}`, { cause: opts.cause });
+        this.name = 'RenderError';
+        this.code = code;
+        this.stderr = opts.stderr;
+    }
+
+    get retryable(): boolean {
+        return RENDER_ERROR_CODES[this.code].retryable;
+    }
+
+    get userMessage(): string {
+        return RENDER_ERROR_CODES[this.code].userMessage;
+    }
+}
+
+const errorName = (err: unknown): string => (err as { name?: string } | null)?.name ?? '';
+
+/** S3 / Supabase "no such object" (GetObject reports NoSuchKey, HeadObject NotFound). */
+export function isObjectNotFound(err: unknown): boolean {
+    const status = (err as { $metadata?: { httpStatusCode?: number } } | null)?.$metadata?.httpStatusCode;
+    return ['NoSuchKey', 'NotFound'].includes(errorName(err)) || status === 404;
+}
+
+/** Maps anything thrown by a processor onto the taxonomy; unknown errors are INTERNAL (retried). */
+export function classifyError(err: unknown): RenderError {
+    if (err instanceof RenderError) return err;
+    if (err instanceof UnrecoverableError && err.cause instanceof RenderError) return err.cause;
+    const message = err instanceof Error ? err.message : String(err);
+    // LambdaUnavailableError, matched by name so db/storage don't pull in the Remotion SDK through this module.
+    if (errorName(err) === 'LambdaUnavailableError') {
+        const reason = (err as { reason: LambdaUnavailableReason }).reason;
+        const code: RenderErrorCode = reason === 'rate-limited'
+            ? 'LAMBDA_RATE_LIMITED'
+            : reason === 'not-configured' ? 'RENDERER_NOT_CONFIGURED' : 'LAMBDA_FAILED';
+        return new RenderError(code, message, { cause: err });
+    }
+    if (isObjectNotFound(err)) return new RenderError('ASSET_NOT_FOUND', message, { cause: err });
+    if (/timed? ?out/i.test(message) || errorName(err) === 'TimeoutError') {
+        return new RenderError('TIMEOUT', message, { cause: err });
+    }
+    return new RenderError('INTERNAL', message, { cause: err });
+}
+
+/** What the processor should throw: permanent codes become UnrecoverableError so BullMQ skips the remaining attempts. */
+export function toJobError(error: RenderError): Error {
+    if (error.retryable) return error;
+    // The cause keeps the code and stderr for the dead-letter entry (classifyError unwraps it).
+    const unrecoverable = new UnrecoverableError(error.message);
+    unrecoverable.cause = error;
+    return unrecoverable;
+}
+
+/** Backoff type to enqueue with (`backoff: { type: 'render-error' }`) to get per-code delays. */
+export const RENDER_BACKOFF_TYPE = 'render-error';
+
+const BACKOFF_BASE_MS: Partial<Record<RenderErrorCode, number>> = {
+    LAMBDA_RATE_LIMITED: 60_000,
+    LAMBDA_FAILED: 30_000,
+    TIMEOUT: 30_000,
+    STORAGE_DOWNLOAD_FAILED: 10_000,
+    STORAGE_UPLOAD_FAILED: 10_000,
+    DISK_FULL: 60_000,
+};
+const DEFAULT_BACKOFF_BASE_MS = 15_000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+/** Exponential per-code backoff with ±20% jitter, so rate-limited Lambda jobs spread out. */
+export const renderBackoff: BackoffStrategy = (attemptsMade, _type, err) => {
+    const code = err ? classifyError(err).code : 'INTERNAL';
+    const base = BACKOFF_BASE_MS[code] ?? DEFAULT_BACKOFF_BASE_MS;
+    const delay = Math.min(MAX_BACKOFF_MS, base * 2 ** Math.max(0, attemptsMade - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
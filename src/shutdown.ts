@@ -0,0 +1,125 @@
+import { WaitingError } from 'bullmq';
+import type { Job, Worker } from 'bullmq';
+
+/** After the deadline, how long aborted jobs get to requeue themselves before the process exits anyway. */
+const ABORT_GRACE_MS = 15000;
+
+export class ShutdownError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ShutdownError';
+    }
+}
+
+/**
+ * Drains the process on SIGTERM/SIGINT: stop taking jobs, let active jobs finish until the deadline,
+ * then abort them through `signal` (kills ffmpeg, deletes Lambda renders) so they requeue via
+ * requeueInterrupted(). Finally closes the workers, runs cleanup hooks and exits.
+ */
+export class ShutdownCoordinator {
+    private readonly controller = new AbortController();
+    private readonly workers: Worker[] = [];
+    private readonly cleanups: Array<{ name: string; run: () => Promise<void> | void }> = [];
+    private shuttingDown = false;
+
+    constructor(private readonly deadlineMs: number) {}
+
+    /** Aborts (reason: ShutdownError) once the drain deadline passes; combine it with each job's cancel signal. */
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    /** True from the first signal on (workers no longer take jobs). */
+    get draining(): boolean {
+        return this.shuttingDown;
+    }
+
+    /** True once running jobs have been told to stop. */
+    get interrupted(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    addWorker(worker: Worker): void {
+        this.workers.push(worker);
+    }
+
+    /** Runs after all workers are closed, in registration order (e.g. end the DB pool last). */
+    onShutdown(name: string, run: () => Promise<void> | void): void {
+        this.cleanups.push({ name, run });
+    }
+
+    install(): void {
+        for (const sig of ['SIGTERM', 'SIGINT'] as const) {
+            process.on(sig, () => {
+                if (this.shuttingDown) {
+                    console.warn(`[Shutdown] ${sig} received again, exiting immediately`);
+                    process.exit(1);
+                }
+                void this.shutdown(sig).then((code) => process.exit(code));
+            });
+        }
+    }
+
+    /** Returns the exit code: 0 when everything closed cleanly, 1 otherwise. */
+    async shutdown(reason: string): Promise<number> {
+        this.shuttingDown = true;
+        let exitCode = 0;
+        console.log(`[Shutdown] 🛑 ${reason}: no new jobs, draining active jobs (deadline ${Math.round(this.deadlineMs / 1000)}s)...`);
+
+        // close() stops fetching immediately and resolves once active jobs are done.
+        const closing = Promise.allSettled(this.workers.map((w) => w.close()));
+        const drained = await this.waitFor(closing, this.deadlineMs);
+
+        let closed = drained;
+        if (!drained) {
+            console.warn('[Shutdown] ⏰ Deadline reached, aborting active jobs so they are retried...');
+            this.controller.abort(new ShutdownError(`Worker shutting down (${reason})`));
+            closed = await this.waitFor(closing, ABORT_GRACE_MS);
+        }
+        if (!closed) {
+            // close() cannot be forced once started; exiting leaves the jobs to BullMQ's stalled-job check.
+            console.error('[Shutdown] Jobs did not stop in time, exiting anyway (BullMQ will treat them as stalled)');
+            exitCode = 1;
+        } else {
+            for (const result of await closing) {
+                if (result.status === 'rejected') {
+                    console.error('[Shutdown] Worker close failed:', result.reason);
+                    exitCode = 1;
+                }
+            }
+        }
+
+        for (const { name, run } of this.cleanups) {
+            try {
+                await run();
+            } catch (err) {
+                console.error(`[Shutdown] ${name} failed:`, err);
+                exitCode = 1;
+            }
+        }
+        console.log(`[Shutdown] ✅ Done (exit code ${exitCode})`);
+        return exitCode;
+    }
+
+    private async waitFor(promise: Promise<unknown>, ms: number): Promise<boolean> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<false>((r) => {
+            timer = setTimeout(() => r(false), ms);
+        });
+        try {
+            return await Promise.race([promise.then(() => true), timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+/**
+ * Puts a job interrupted by shutdown back in the wait list without using up an attempt.
+ * The step/project stays `processing`; the next worker to pick the job continues from there.
+ */
+export async function requeueInterrupted(tag: string, job: Job, token: string | undefined): Promise<never> {
+    console.warn(`[${tag}] ⏸️ Job ${job.id} interrupted by shutdown, moving back to wait`);
+    await job.moveToWait(token);
+    throw new WaitingError();
+}
@@ -1,60 +1,77 @@
-import { S3Client, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, GetObjectCommand, HeadObjectCommand, CopyObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { Upload } from '@aws-sdk/lib-storage';
 import { createWriteStream, existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 import { pipeline } from 'stream/promises';
 import { Readable } from 'stream';
-import 'dotenv/config';
+import { getConfig } from './config.js';
+import { RenderError, isObjectNotFound } from './render-errors.js';
 
 export class StorageService {
     private s3Client: S3Client;
     private bucketName: string;
+    /** `s3` when app storage is AWS S3 (server-side copies from other S3 buckets are possible). */
+    readonly backend: 's3' | 'supabase';
 
     constructor() {
-        const isSupabase = process.env.CURRENT_BLOB_STORAGE === 'supabase';
+        const { backend, s3, supabase } = getConfig().storage;
+        this.backend = backend;
 
-        if (isSupabase) {
+        if (backend === 'supabase') {
             this.s3Client = new S3Client({
-                region: process.env.SUPABASE_STORAGE_REGION || 'us-east-1',
-                endpoint: process.env.SUPABASE_STORAGE_ENDPOINT,
+                region: supabase.region,
+                endpoint: supabase.endpoint,
                 credentials: {
-                    accessKeyId: process.env.SUPABASE_STORAGE_ACCESS_KEY_ID || '',
-                    secretAccessKey: process.env.SUPABASE_STORAGE_SECRET_ACCESS_KEY || '',
+                    accessKeyId: supabase.accessKeyId ?? '',
+                    secretAccessKey: supabase.secretAccessKey ?? '',
                 },
                 forcePathStyle: true,
             });
-            this.bucketName = process.env.SUPABASE_STORAGE_BUCKET_NAME || 'ai-reels-storage';
+            this.bucketName = supabase.bucket;
         } else {
             this.s3Client = new S3Client({
-                region: process.env.AWS_REGION || 'us-east-1',
+                region: s3.region,
                 credentials: {
-                    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-                    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+                    accessKeyId: s3.accessKeyId ?? '',
+                    secretAccessKey: s3.secretAccessKey ?? '',
                 },
             });
-            this.bucketName = process.env.S3_BUCKET_NAME || 'ai-reels-storage';
+            this.bucketName = s3.bucket;
         }
     }
 
-    async downloadToFile(objectId: string, targetPath: string): Promise<void> {
+    async downloadToFile(objectId: string, targetPath: string, signal?: AbortSignal): Promise<void> {
         // Decode the object key in case it comes URL encoded
         const decodedKey = decodeURIComponent(objectId);
         const command = new GetObjectCommand({
             Bucket: this.bucketName,
             Key: decodedKey,
         });
-        const response = await this.s3Client.send(command);
+        try {
+            const response = await this.s3Client.send(command, { abortSignal: signal });
 
-        const targetDir = dirname(targetPath);
-        if (!existsSync(targetDir)) {
-            mkdirSync(targetDir, { recursive: true });
-        }
+            const targetDir = dirname(targetPath);
+            if (!existsSync(targetDir)) {
+                mkdirSync(targetDir, { recursive: true });
+            }
 
-        await pipeline(response.Body as Readable, createWriteStream(targetPath));
+            await pipeline(response.Body as Readable, createWriteStream(targetPath), { signal });
+        } catch (err: unknown) {
+            if (signal?.aborted) throw err;
+            const msg = err instanceof Error ? err.message : String(err);
+            if (isObjectNotFound(err)) {
+                throw new RenderError('ASSET_NOT_FOUND', `${decodedKey} not found in ${this.bucketName}`, { cause: err });
+            }
+            throw new RenderError('STORAGE_DOWNLOAD_FAILED', `Download of ${decodedKey} failed: ${msg}`, { cause: err });
+        }
     }
 
-    async upload(objectId: string, stream: Readable, contentType: string = 'video/mp4'): Promise<void> {
+    /**
+     * Multipart upload from a stream. On failure the multipart upload is aborted and the source stream
+     * destroyed; `signal` aborts it and rejects with the abort reason.
+     */
+    async upload(objectId: string, stream: Readable, contentType: string = 'video/mp4', signal?: AbortSignal): Promise<void> {
         const upload = new Upload({
             client: this.s3Client,
             params: {
@@ -63,18 +80,60 @@ export class StorageService {
                 Body: stream,
                 ContentType: contentType,
             },
+            leavePartsOnError: false,
         });
-        await upload.done();
+        const onAbort = () => void upload.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        try {
+            await upload.done();
+        } catch (err: unknown) {
+            stream.destroy();
+            if (signal?.aborted) throw signal.reason;
+            const msg = err instanceof Error ? err.message : String(err);
+            throw new RenderError('STORAGE_UPLOAD_FAILED', `Upload of ${objectId} failed: ${msg}`, { cause: err });
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /** Server-side copy from another S3 bucket (e.g. Remotion's render bucket); no bytes pass through the worker. */
+    async copyFrom(sourceBucket: string, sourceKey: string, objectId: string, contentType: string = 'video/mp4'): Promise<void> {
+        await this.s3Client.send(new CopyObjectCommand({
+            Bucket: this.bucketName,
+            Key: objectId,
+            CopySource: `${sourceBucket}/${encodeURI(sourceKey)}`,
+            ContentType: contentType,
+            MetadataDirective: 'REPLACE',
+        }));
     }
 
     async getSignedUrl(objectId: string, expiresIn: number = 3600): Promise<string> {
+        // Decoded like downloadToFile, so a URL-encoded key signs the object it was sized and fetched by
         const command = new GetObjectCommand({
             Bucket: this.bucketName,
-            Key: objectId,
+            Key: decodeURIComponent(objectId),
         });
         return await getSignedUrl(this.s3Client, command, { expiresIn });
     }
 
+    /** Object size in bytes from HeadObject, so size limits apply before anything is downloaded. */
+    async getObjectSize(objectId: string): Promise<number> {
+        const decodedKey = decodeURIComponent(objectId);
+        try {
+            const head = await this.s3Client.send(new HeadObjectCommand({
+                Bucket: this.bucketName,
+                Key: decodedKey,
+            }));
+            return head.ContentLength ?? 0;
+        } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            if (isObjectNotFound(err)) {
+                throw new RenderError('ASSET_NOT_FOUND', `${decodedKey} not found in ${this.bucketName}`, { cause: err });
+            }
+            throw new RenderError('STORAGE_DOWNLOAD_FAILED', `HeadObject of ${decodedKey} failed: ${msg}`, { cause: err });
+        }
+    }
+
     /** Returns true if the object exists (so we can skip music when it was stored in another backend e.g. Supabase). */
     async objectExists(objectId: string): Promise<boolean> {
         const decodedKey = decodeURIComponent(objectId);
@@ -85,8 +144,7 @@ export class StorageService {
             }));
             return true;
         } catch (err: unknown) {
-            const code = (err as { name?: string }).name;
-            if (code === 'NotFound' || code === '404') return false;
+            if (isObjectNotFound(err)) return false;
             throw err;
         }
     }
@@ -1,33 +1,712 @@
-import { spawn } from 'child_process';
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
 import { join } from 'path';
-import { createReadStream, existsSync, mkdirSync, rmSync, statSync } from 'fs';
+import { createReadStream, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { statfs } from 'fs/promises';
 import { tmpdir } from 'os';
 import type { StorageService } from './storage.js';
 import type { DbService } from './db.js';
+import { finalizeProjectSuccess } from './finalize.js';
+import { getAudioDurationSec } from './beat-sync/index.js';
+import { parseFfmpegTime } from './progress.js';
+import type { ProgressCallback } from './progress.js';
+import { RenderError } from './render-errors.js';
+import { getConfig } from './config.js';
+import { captionsFilter, duckedMusicFilter } from './processor.js';
+import { encodingArgs, maxFps, resolveEncoding } from './encoding-profiles.js';
+import type { EncodingSelection, ResolvedEncoding } from './encoding-profiles.js';
+import { parseSrt } from './ass-generator.js';
+import { analyzeReframe, blurredBackgroundFilter, trackingCropFilter } from './reframe.js';
 
-const MAX_VIDEO_SIZE_BYTES = 100 * 1024 * 1024;
+const execFileAsync = promisify(execFile);
+
+const MB = 1024 * 1024;
 const FFMPEG_TIMEOUT_MS = 15 * 60 * 1000; // 15 min
+/** Tools that can read a large input straight from a signed URL instead of downloading it. */
+const STREAMING_TOOLS: ReadonlySet<VideoToolsJobPayload['toolType']> = new Set(['video-resize', 'video-compress']);
+/** Signed input URLs outlive the ffmpeg timeout. */
+const STREAM_URL_EXPIRES_SEC = 2 * 60 * 60;
+/** Lets ffmpeg resume an HTTP input after a dropped connection. */
+const HTTP_INPUT_FLAGS = ['-reconnect', '1', '-reconnect_on_network_error', '1', '-reconnect_delay_max', '5'];
+/** Trim segments shorter than this are dropped. */
+const MIN_SEGMENT_SEC = 0.05;
 
 export interface VideoToolsJobPayload {
   projectId: string;
   userId: string;
-  inputBlobId: string;
-  toolType: 'video-resize' | 'video-compress';
-  options: VideoResizeOptions | VideoCompressOptions;
+  /** The input of single-input tools. */
+  inputBlobId?: string;
+  /** Clips in playback order, for multi-input tools (`video-concat`). */
+  inputBlobIds?: string[];
+  toolType:
+    | 'video-resize'
+    | 'video-compress'
+    | 'video-trim'
+    | 'video-concat'
+    | 'video-convert'
+    | 'video-captions'
+    | 'video-reframe'
+    | 'video-jumpcut'
+    | 'video-audio';
+  options:
+    | VideoResizeOptions
+    | VideoCompressOptions
+    | VideoTrimOptions
+    | VideoConcatOptions
+    | VideoConvertOptions
+    | VideoCaptionsOptions
+    | VideoReframeOptions
+    | VideoJumpcutOptions
+    | VideoAudioOptions;
+  /** For `video-convert` the extension is replaced by the format's. */
   outputFileName: string;
+  /** Billing plan from the backend; picks the input size limit (VIDEO_TOOLS_MAX_INPUT_MB_BY_PLAN) and caps `encoding`. */
+  plan?: string;
+  /** Encoding profile and codec of MP4 outputs (see encoding-profiles.ts). */
+  encoding?: EncodingSelection;
 }
 
 export interface VideoResizeOptions {
   width: number;
   height: number;
-  fit: 'fill' | 'contain' | 'cover';
+  /** Default `contain`. */
+  fit?: 'fill' | 'contain' | 'cover';
 }
 
 export interface VideoCompressOptions {
   width: number;
   height: number;
-  crf: number;
-  presetLabel: string;
+  /** Clamped to 18–28; default 23. */
+  crf?: number;
+  presetLabel?: string;
+}
+
+/** Tools that join several inputs (`inputBlobIds`); the others read `inputBlobId`. */
+export const MULTI_INPUT_TOOLS: ReadonlySet<VideoToolsJobPayload['toolType']> = new Set(['video-concat']);
+
+/** Seconds from the start of the clip. */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface VideoTrimOptions {
+  /** Keep from here; default 0. */
+  start?: number;
+  /** Keep up to here; default the end of the clip. */
+  end?: number;
+  /** Segments cut out of the kept range; the rest is joined back together. */
+  remove?: TimeRange[];
+}
+
+export interface VideoConcatOptions {
+  /** Output size; default the first clip's (rounded down to even). Clips are fitted into it. */
+  width?: number;
+  height?: number;
+  /** Default `contain` (letterbox). */
+  fit?: 'fill' | 'contain' | 'cover';
+  /** Output frame rate; default the first clip's. At most maxFps (the profile's when enforced, else 60). */
+  fps?: number;
+}
+
+/** Extension and content type of the uploaded file per `video-convert` format. */
+export const CONVERT_FORMATS = {
+  gif: { ext: 'gif', contentType: 'image/gif' },
+  webm: { ext: 'webm', contentType: 'video/webm' },
+  mp3: { ext: 'mp3', contentType: 'audio/mpeg' },
+  m4a: { ext: 'm4a', contentType: 'audio/mp4' },
+  png: { ext: 'png', contentType: 'image/png' },
+  jpeg: { ext: 'jpg', contentType: 'image/jpeg' },
+} as const;
+
+export type ConvertFormat = keyof typeof CONVERT_FORMATS;
+
+const MP4_OUTPUT = { ext: 'mp4', contentType: 'video/mp4' };
+
+export interface VideoConvertOptions {
+  format: ConvertFormat;
+  /** Seconds into the input where the output starts, or the frame grabbed for png/jpeg; default 0. */
+  start?: number;
+  /** Seconds of output (gif, webm, mp3, m4a); default to the end of the input. */
+  duration?: number;
+  /** gif default 12, webm default the input's. */
+  fps?: number;
+  /** Output width, height follows the aspect ratio; default the input's. Never upscales. */
+  width?: number;
+}
+
+export type CaptionFileFormat = 'json' | 'srt' | 'ass';
+
+export interface VideoCaptionsOptions {
+  /** Word-timed JSON (as produced for reels), SRT or ASS. */
+  captionBlobId: string;
+  /** Default from the blob's extension. */
+  format?: CaptionFileFormat;
+  /** Caption preset (`karaoke-card`, `bold-stroke`, ...), as in reels; ignored for ASS, which carries its own styles. */
+  preset?: string;
+  position?: 'top' | 'center' | 'bottom';
+  /** e.g. `hindi`; Devanagari text is also detected from the captions. */
+  language?: string;
+}
+
+export interface VideoReframeOptions {
+  /** Output size; default 1080 × 1920. */
+  width?: number;
+  height?: number;
+  /**
+   * `track` (default) follows the subject with a panning crop (see reframe.ts) and falls back to
+   * `blur` when the input is not wider than the output or has nothing to track. `blur` fits the
+   * whole frame over a blurred copy of itself.
+   */
+  mode?: 'track' | 'blur';
+  /** Scene cut sensitivity, 0–1 (lower finds more cuts); default 0.3. */
+  sceneThreshold?: number;
+}
+
+export interface VideoJumpcutOptions {
+  /** Audio below this level counts as silence; default -35 dB. */
+  thresholdDb?: number;
+  /** Shorter pauses are kept; default 0.6 s. */
+  minSilenceSec?: number;
+  /** Kept on both sides of every cut so speech is not clipped; default 0.15 s. */
+  paddingSec?: number;
+}
+
+/** What a jump cut removed, stored as `projects.metadata.jumpcut` for the app. */
+export interface JumpcutResult {
+  settings: Required<VideoJumpcutOptions>;
+  sourceDurationSec: number;
+  keptSegments: TimeRange[];
+  removedSegments: TimeRange[];
+  removedSec: number;
+  analyzedAt: string;
+}
+
+export interface VideoAudioOptions {
+  /**
+   * `mix` (default) keeps the original audio and adds the music under it, ducked while the original
+   * is loud. `replace` uses the music instead. `mute` drops all audio.
+   */
+  mode?: 'mix' | 'replace' | 'mute';
+  /** Music looped to the video's length; required for `replace`. */
+  musicBlobId?: string;
+  /** Music gain, 0–1; default 0.2 when mixed, 1 when replacing. */
+  musicVolume?: number;
+  /** Two-pass EBU R128 loudness normalization; default true. */
+  normalize?: boolean;
+  /** Integrated loudness target in LUFS; default -14 (Reels, TikTok, YouTube). */
+  targetLufs?: number;
+  /** True-peak ceiling in dBTP; default -1. */
+  truePeakDb?: number;
+}
+
+export interface LoudnessMeasurement {
+  integratedLufs: number;
+  truePeakDb: number;
+  lra: number;
+  thresholdLufs: number;
+}
+
+/** Stored as `projects.metadata.audio` for the app. */
+export interface AudioToolResult {
+  mode: NonNullable<VideoAudioOptions['mode']>;
+  musicBlobId: string | null;
+  /** Null when normalization was off or there was nothing audible to normalize. */
+  targetLufs: number | null;
+  truePeakDb: number | null;
+  /** Loudness of the audio before normalization (after mixing); null for `mute`. */
+  measured: LoudnessMeasurement | null;
+  analyzedAt: string;
+}
+
+interface VideoProbe {
+  width: number;
+  height: number;
+  fps: number;
+  durationSec: number;
+  hasAudio: boolean;
+  videoCodec: string;
+}
+
+async function probeVideo(path: string): Promise<VideoProbe> {
+  const { stdout } = await execFileAsync(
+    'ffprobe',
+    ['-v', 'error', '-show_entries', 'stream=codec_type,codec_name,width,height,r_frame_rate:format=duration', '-of', 'json', path],
+    { encoding: 'utf8', timeout: 10000 },
+  );
+  const info = JSON.parse(stdout) as {
+    streams?: { codec_type?: string; codec_name?: string; width?: number; height?: number; r_frame_rate?: string }[];
+    format?: { duration?: string };
+  };
+  const video = info.streams?.find((st) => st.codec_type === 'video');
+  if (!video?.width || !video.height) {
+    throw new RenderError('FFMPEG_FAILED', `${path} has no video stream`);
+  }
+  const [num, den] = (video.r_frame_rate ?? '').split('/').map(Number);
+  const fps = num && den ? num / den : 0;
+  const durationSec = parseFloat(info.format?.duration ?? '');
+  return {
+    width: video.width,
+    height: video.height,
+    fps: Number.isFinite(fps) && fps > 0 ? fps : 30,
+    durationSec: Number.isFinite(durationSec) && durationSec > 0 ? durationSec : 0,
+    hasAudio: info.streams?.some((st) => st.codec_type === 'audio') ?? false,
+    videoCodec: video.codec_name ?? '',
+  };
+}
+
+const even = (n: number): number => Math.max(2, Math.floor(n / 2) * 2);
+const sec = (n: number): string => n.toFixed(3);
+
+/** The ranges of a `durationSec` clip that survive the trim, in order. */
+function keptSegments(opts: VideoTrimOptions, durationSec: number): TimeRange[] {
+  const start = Math.max(0, opts.start ?? 0);
+  const end = Math.min(opts.end ?? durationSec, durationSec);
+  let segments: TimeRange[] = [{ start, end }];
+  for (const cut of opts.remove ?? []) {
+    segments = segments.flatMap((seg) => (cut.end <= seg.start || cut.start >= seg.end
+      ? [seg]
+      : [
+        ...(cut.start > seg.start ? [{ start: seg.start, end: cut.start }] : []),
+        ...(cut.end < seg.end ? [{ start: cut.end, end: seg.end }] : []),
+      ]));
+  }
+  return segments.filter((seg) => seg.end - seg.start >= MIN_SEGMENT_SEC);
+}
+
+/**
+ * Renders only `segments` of the input, joined back to back (frame-accurate, re-encoded). One
+ * select/aselect pass, so hundreds of segments (jump cuts) cost no more than one. The video is
+ * first resampled to a constant frame rate, so the frame-count timestamps stay in sync with the
+ * audio on variable-frame-rate input (phone recordings, screen captures).
+ */
+function keepSegmentsArgs(
+  inputPath: string,
+  outputPath: string,
+  segments: TimeRange[],
+  probe: VideoProbe,
+  encoding: ResolvedEncoding,
+): { args: string[]; durationSec: number } {
+  const { hasAudio } = probe;
+  const fps = Math.max(1, Math.min(maxFps(encoding), Math.round(probe.fps)));
+  const keep = segments.map(({ start, end }) => `between(t,${sec(start)},${sec(end)})`).join('+');
+  const filters = [`[0:v]fps=${fps},select='${keep}',setpts=N/FRAME_RATE/TB[v]`];
+  if (hasAudio) filters.push(`[0:a]aselect='${keep}',asetpts=N/SR/TB[a]`);
+
+  return {
+    args: [
+      '-y',
+      '-i', inputPath,
+      '-filter_complex', filters.join(';'),
+      '-map', '[v]',
+      ...(hasAudio ? ['-map', '[a]'] : []),
+      ...encodingArgs(encoding),
+      outputPath,
+    ],
+    durationSec: segments.reduce((total, seg) => total + seg.end - seg.start, 0),
+  };
+}
+
+async function buildTrimArgs(
+  inputPath: string,
+  outputPath: string,
+  opts: VideoTrimOptions,
+  encoding: ResolvedEncoding,
+): Promise<{ args: string[]; durationSec: number }> {
+  const probe = await probeVideo(inputPath);
+  if (!probe.durationSec) throw new RenderError('FFMPEG_FAILED', 'Could not read the input duration');
+  const segments = keptSegments(opts, probe.durationSec);
+  if (segments.length === 0) {
+    throw new RenderError('INVALID_PAYLOAD', `Trim leaves nothing of the ${sec(probe.durationSec)}s input`);
+  }
+  return keepSegmentsArgs(inputPath, outputPath, segments, probe, encoding);
+}
+
+/** Silent ranges of the audio track, from ffmpeg's silencedetect. */
+async function detectSilences(
+  inputPath: string,
+  thresholdDb: number,
+  minSilenceSec: number,
+  durationSec: number,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback,
+): Promise<TimeRange[]> {
+  const stderr = await runFfmpegWithTimeout(
+    ['-hide_banner', '-i', inputPath, '-vn', '-af', `silencedetect=noise=${thresholdDb}dB:d=${minSilenceSec}`, '-f', 'null', '-'],
+    FFMPEG_TIMEOUT_MS,
+    signal,
+    onProgress && { durationSec, onProgress },
+  );
+  const silences: TimeRange[] = [];
+  let start: number | null = null;
+  for (const match of stderr.matchAll(/silence_(start|end): (-?[\d.]+)/g)) {
+    const t = Number(match[2]);
+    if (match[1] === 'start') {
+      start = Math.max(0, t);
+    } else if (start !== null) {
+      silences.push({ start, end: t });
+      start = null;
+    }
+  }
+  // Silence running to the end of the file has no silence_end.
+  if (start !== null) silences.push({ start, end: durationSec });
+  return silences;
+}
+
+/**
+ * Cuts every pause longer than `minSilenceSec`, keeping `paddingSec` of it on each side, and
+ * stores the segment list in the project metadata.
+ */
+async function buildJumpcutArgs(
+  inputPath: string,
+  outputPath: string,
+  opts: VideoJumpcutOptions,
+  encoding: ResolvedEncoding,
+  db: DbService,
+  projectId: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback,
+): Promise<{ args: string[]; durationSec: number }> {
+  const settings = {
+    thresholdDb: Math.max(-90, Math.min(0, opts.thresholdDb ?? -35)),
+    minSilenceSec: Math.max(0.1, opts.minSilenceSec ?? 0.6),
+    paddingSec: Math.max(0, Math.min(2, opts.paddingSec ?? 0.15)),
+  };
+  const probe = await probeVideo(inputPath);
+  if (!probe.hasAudio) throw new RenderError('INVALID_PAYLOAD', 'Jump cut needs an input with an audio track');
+  if (!probe.durationSec) throw new RenderError('FFMPEG_FAILED', 'Could not read the input duration');
+
+  const silences = await detectSilences(inputPath, settings.thresholdDb, settings.minSilenceSec, probe.durationSec, signal, onProgress);
+  const removed = silences
+    .map(({ start, end }) => ({
+      start: start <= 0 ? 0 : start + settings.paddingSec,
+      end: end >= probe.durationSec ? probe.durationSec : end - settings.paddingSec,
+    }))
+    .filter(({ start, end }) => end - start >= MIN_SEGMENT_SEC);
+  const segments = keptSegments({ remove: removed }, probe.durationSec);
+  if (segments.length === 0) {
+    throw new RenderError('INVALID_PAYLOAD', `No speech above ${settings.thresholdDb} dB in the ${sec(probe.durationSec)}s input`);
+  }
+
+  const round = (range: TimeRange): TimeRange => ({ start: Number(sec(range.start)), end: Number(sec(range.end)) });
+  const result: JumpcutResult = {
+    settings,
+    sourceDurationSec: Number(sec(probe.durationSec)),
+    keptSegments: segments.map(round),
+    removedSegments: removed.map(round),
+    removedSec: Number(sec(removed.reduce((total, seg) => total + seg.end - seg.start, 0))),
+    analyzedAt: new Date().toISOString(),
+  };
+  await db.mergeProjectMetadata(projectId, { jumpcut: result });
+  console.log(`[VideoTools] Jump cut: ${removed.length} pause(s), ${result.removedSec}s of ${result.sourceDurationSec}s removed`);
+
+  return keepSegmentsArgs(inputPath, outputPath, segments, probe, encoding);
+}
+
+/** Video codecs an MP4 can carry as they are, so audio-only edits skip re-encoding. */
+const MP4_COPY_CODECS = new Set(['h264', 'hevc', 'av1']);
+
+/** Reads loudnorm's `print_format=json` block from ffmpeg's stderr; null for silent audio. */
+function parseLoudnorm(stderr: string): LoudnessMeasurement | null {
+  const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+  let stats: Record<string, string>;
+  try {
+    stats = JSON.parse(json) as Record<string, string>;
+  } catch {
+    throw new RenderError('FFMPEG_FAILED', 'Loudness measurement printed no stats', { stderr: stderr.slice(-2000) });
+  }
+  const measured = {
+    integratedLufs: Number(stats.input_i),
+    truePeakDb: Number(stats.input_tp),
+    lra: Number(stats.input_lra),
+    thresholdLufs: Number(stats.input_thresh),
+  };
+  // Silence measures as -inf, which the second pass cannot use.
+  return Object.values(measured).every(Number.isFinite) ? measured : null;
+}
+
+/**
+ * Normalizes loudness, mixes or replaces music, or mutes the audio. The first pass measures the
+ * mixed audio (stored in the project metadata with the settings); the second applies loudnorm
+ * linearly with those measurements. The video stream is copied when MP4 allows it.
+ */
+async function buildAudioArgs(
+  inputPath: string,
+  workDir: string,
+  outputPath: string,
+  opts: VideoAudioOptions,
+  encoding: ResolvedEncoding,
+  storage: StorageService,
+  db: DbService,
+  projectId: string,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback,
+): Promise<{ args: string[]; durationSec: number }> {
+  const mode = opts.mode ?? 'mix';
+  const probe = await probeVideo(inputPath);
+  const videoArgs = ['-map', '0:v:0', ...(MP4_COPY_CODECS.has(probe.videoCodec)
+    ? ['-c:v', 'copy', '-c:a', 'aac', '-b:a', `${encoding.audioBitrateKbps}k`, '-movflags', '+faststart']
+    : encodingArgs(encoding, { capFps: true }))];
+  const result: AudioToolResult = {
+    mode,
+    musicBlobId: null,
+    targetLufs: null,
+    truePeakDb: null,
+    measured: null,
+    analyzedAt: new Date().toISOString(),
+  };
+
+  if (mode === 'mute') {
+    await db.mergeProjectMetadata(projectId, { audio: result });
+    return {
+      args: ['-y', '-i', inputPath, ...videoArgs, '-an', outputPath],
+      durationSec: probe.durationSec,
+    };
+  }
+
+  const useOriginal = mode === 'mix' && probe.hasAudio;
+  if (!opts.musicBlobId && !useOriginal) {
+    throw new RenderError('INVALID_PAYLOAD', mode === 'replace' ? 'replace needs a musicBlobId' : 'The input has no audio track and no musicBlobId was given');
+  }
+
+  const inputs = ['-i', inputPath];
+  let graph: string;
+  if (opts.musicBlobId) {
+    const musicPath = join(workDir, 'music');
+    await storage.downloadToFile(opts.musicBlobId, musicPath, signal);
+    inputs.push('-stream_loop', '-1', '-i', musicPath);
+    result.musicBlobId = opts.musicBlobId;
+    // The looped music is cut to the video's length.
+    if (!probe.durationSec) throw new RenderError('FFMPEG_FAILED', 'Could not read the input duration');
+    const volume = Math.max(0, Math.min(1, opts.musicVolume ?? (useOriginal ? 0.2 : 1)));
+    graph = useOriginal
+      ? duckedMusicFilter('0:a', '1:a', volume, 'mixed')
+      : `[1:a]volume=${volume},atrim=0:${sec(probe.durationSec)}[mixed]`;
+  } else {
+    graph = '[0:a]anull[mixed]';
+  }
+
+  let audioLabel = 'mixed';
+  if (opts.normalize !== false) {
+    const targetLufs = Math.max(-31, Math.min(-5, opts.targetLufs ?? -14));
+    const truePeakDb = Math.max(-9, Math.min(0, opts.truePeakDb ?? -1));
+    const loudnorm = `loudnorm=I=${targetLufs}:TP=${truePeakDb}:LRA=11`;
+    const stderr = await runFfmpegWithTimeout(
+      ['-hide_banner', ...inputs, '-filter_complex', `${graph};[mixed]${loudnorm}:print_format=json[measured]`, '-map', '[measured]', '-f', 'null', '-'],
+      FFMPEG_TIMEOUT_MS,
+      signal,
+      onProgress && { durationSec: probe.durationSec, onProgress },
+    );
+    result.measured = parseLoudnorm(stderr);
+    if (result.measured) {
+      const m = result.measured;
+      result.targetLufs = targetLufs;
+      result.truePeakDb = truePeakDb;
+      // loudnorm outputs 192 kHz; resample back for AAC.
+      graph += `;[mixed]${loudnorm}:measured_I=${m.integratedLufs}:measured_TP=${m.truePeakDb}:measured_LRA=${m.lra}:measured_thresh=${m.thresholdLufs}:linear=true,aresample=48000[normalized]`;
+      audioLabel = 'normalized';
+    } else {
+      console.warn('[VideoTools] Audio is silent; skipping loudness normalization');
+    }
+  }
+
+  await db.mergeProjectMetadata(projectId, { audio: result });
+  if (result.measured) {
+    console.log(`[VideoTools] Audio: ${result.measured.integratedLufs} LUFS → ${result.targetLufs} LUFS (${mode}${result.musicBlobId ? ' with music' : ''})`);
+  }
+
+  return {
+    args: [
+      '-y',
+      ...inputs,
+      '-filter_complex', graph,
+      ...videoArgs,
+      '-map', `[${audioLabel}]`,
+      '-shortest',
+      outputPath,
+    ],
+    durationSec: probe.durationSec,
+  };
+}
+
+/**
+ * Every clip is fitted to one size, frame rate and audio format before the concat filter, so
+ * clips from different sources join cleanly. Clips without audio get silence when others have it.
+ */
+async function buildConcatArgs(
+  inputPaths: string[],
+  outputPath: string,
+  opts: VideoConcatOptions,
+  encoding: ResolvedEncoding,
+): Promise<{ args: string[]; durationSec: number }> {
+  const probes: VideoProbe[] = [];
+  for (const path of inputPaths) probes.push(await probeVideo(path));
+  const first = probes[0]!;
+  const w = even(Math.min(4096, opts.width ?? first.width));
+  const h = even(Math.min(4096, opts.height ?? first.height));
+  const fps = Math.min(maxFps(encoding), Math.round(opts.fps ?? first.fps));
+  const withAudio = probes.some((p) => p.hasAudio);
+
+  const filters: string[] = [];
+  const outputs: string[] = [];
+  probes.forEach((probe, i) => {
+    filters.push(`[${i}:v]${buildResizeFilter(w, h, opts.fit || 'contain')},setsar=1,fps=${fps},format=yuv420p[v${i}]`);
+    outputs.push(`[v${i}]`);
+    if (!withAudio) return;
+    if (probe.hasAudio) {
+      filters.push(`[${i}:a]aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo[a${i}]`);
+    } else {
+      if (!probe.durationSec) throw new RenderError('FFMPEG_FAILED', `Could not read the duration of clip ${i + 1}`);
+      filters.push(`anullsrc=r=48000:cl=stereo,atrim=duration=${sec(probe.durationSec)},aformat=sample_fmts=fltp[a${i}]`);
+    }
+    outputs.push(`[a${i}]`);
+  });
+  filters.push(`${outputs.join('')}concat=n=${probes.length}:v=1:a=${withAudio ? 1 : 0}[v]${withAudio ? '[a]' : ''}`);
+
+  return {
+    args: [
+      '-y',
+      ...inputPaths.flatMap((path) => ['-i', path]),
+      '-filter_complex', filters.join(';'),
+      '-map', '[v]',
+      ...(withAudio ? ['-map', '[a]'] : []),
+      ...encodingArgs(encoding),
+      outputPath,
+    ],
+    durationSec: probes.reduce((total, p) => total + p.durationSec, 0),
+  };
+}
+
+const withExtension = (fileName: string, ext: string): string => `${fileName.replace(/\.[^./]*$/, '')}.${ext}`;
+
+/**
+ * GIF uses a generated palette (palettegen/paletteuse) for clean colors; WebM is VP9/Opus; mp3/m4a
+ * drop the video; png/jpeg grab one frame. Requests above the format's limits (VIDEO_CONVERT_*) are clamped.
+ */
+async function buildConvertArgs(inputPath: string, outputPath: string, opts: VideoConvertOptions): Promise<{ args: string[]; durationSec: number }> {
+  const { format } = opts;
+  const limits = getConfig().videoTools.convert;
+  const probe = await probeVideo(inputPath);
+  const start = Math.min(opts.start ?? 0, Math.max(0, probe.durationSec - MIN_SEGMENT_SEC));
+  const seek = start > 0 ? ['-ss', sec(start)] : [];
+  const scale = (maxWidth: number): string => `scale='min(iw,${Math.min(opts.width ?? maxWidth, maxWidth)})':-2`;
+
+  if (format === 'png' || format === 'jpeg') {
+    return {
+      args: ['-y', ...seek, '-i', inputPath, '-frames:v', '1', '-vf', scale(limits.image.maxWidth), ...(format === 'jpeg' ? ['-q:v', '2'] : []), outputPath],
+      durationSec: 0,
+    };
+  }
+
+  const available = probe.durationSec ? probe.durationSec - start : Infinity;
+  const maxDurationSec = format === 'mp3' || format === 'm4a' ? limits.audio.maxDurationSec : limits[format].maxDurationSec;
+  const durationSec = Math.min(opts.duration ?? available, available, maxDurationSec);
+  const clip = [...seek, ...(Number.isFinite(durationSec) ? ['-t', sec(durationSec)] : [])];
+  const finiteDuration = Number.isFinite(durationSec) ? durationSec : 0;
+
+  if (format === 'mp3' || format === 'm4a') {
+    if (!probe.hasAudio) throw new RenderError('FFMPEG_FAILED', 'Input has no audio track to extract');
+    const codec = format === 'mp3' ? ['-c:a', 'libmp3lame', '-q:a', '2'] : ['-c:a', 'aac', '-b:a', '192k', '-movflags', '+faststart'];
+    return { args: ['-y', ...clip, '-i', inputPath, '-vn', ...codec, outputPath], durationSec: finiteDuration };
+  }
+
+  const fps = Math.min(opts.fps ?? (format === 'gif' ? 12 : probe.fps), limits[format].maxFps);
+  if (format === 'gif') {
+    const filter = `[0:v]fps=${fps},${scale(limits[format].maxWidth)}:flags=lanczos,split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer:bayer_scale=5`;
+    return {
+      args: ['-y', ...clip, '-i', inputPath, '-filter_complex', filter, '-loop', '0', outputPath],
+      durationSec: finiteDuration,
+    };
+  }
+
+  return {
+    args: [
+      '-y',
+      ...clip,
+      '-i', inputPath,
+      '-vf', `fps=${fps},${scale(limits[format].maxWidth)}`,
+      '-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-row-mt', '1', '-deadline', 'good', '-cpu-used', '4',
+      ...(probe.hasAudio ? ['-c:a', 'libopus', '-b:a', '128k'] : ['-an']),
+      outputPath,
+    ],
+    durationSec: finiteDuration,
+  };
+}
+
+/**
+ * Burns captions into an uploaded video with the reel pipeline's filter (see captionsFilter), so
+ * presets and the Devanagari font behave the same. SRT cues are converted to captions first so
+ * they get the preset too.
+ */
+async function buildCaptionsArgs(
+  inputPath: string,
+  workDir: string,
+  outputPath: string,
+  opts: VideoCaptionsOptions,
+  encoding: ResolvedEncoding,
+  storage: StorageService,
+  signal?: AbortSignal,
+): Promise<{ args: string[]; durationSec: number }> {
+  const format = opts.format ?? opts.captionBlobId.split('.').pop()?.toLowerCase();
+  if (format !== 'json' && format !== 'srt' && format !== 'ass') {
+    throw new RenderError('INVALID_PAYLOAD', `Caption format of ${opts.captionBlobId} is not json, srt or ass; set options.format`);
+  }
+  const downloadedPath = join(workDir, `captions.${format}`);
+  await storage.downloadToFile(opts.captionBlobId, downloadedPath, signal);
+
+  let captionPath = downloadedPath;
+  if (format === 'srt') {
+    const cues = parseSrt(readFileSync(downloadedPath, 'utf8'));
+    if (cues.length === 0) throw new RenderError('INVALID_PAYLOAD', `${opts.captionBlobId} has no SRT cues`);
+    captionPath = join(workDir, 'captions.json');
+    writeFileSync(captionPath, JSON.stringify(cues));
+  } else if (format === 'json') {
+    let captions: unknown;
+    try {
+      captions = JSON.parse(readFileSync(downloadedPath, 'utf8'));
+    } catch {
+      captions = undefined;
+    }
+    if (!Array.isArray(captions)) throw new RenderError('INVALID_PAYLOAD', `${opts.captionBlobId} is not a JSON array of captions`);
+  }
+
+  const probe = await probeVideo(inputPath);
+  const filter = captionsFilter(captionPath, { preset: opts.preset, position: opts.position }, opts.language, probe.width / probe.height);
+  return {
+    args: ['-y', '-i', inputPath, '-vf', filter, ...encodingArgs(encoding, { capFps: true }), outputPath],
+    durationSec: probe.durationSec,
+  };
+}
+
+async function buildReframeArgs(
+  inputPath: string,
+  workDir: string,
+  outputPath: string,
+  opts: VideoReframeOptions,
+  encoding: ResolvedEncoding,
+  signal?: AbortSignal,
+): Promise<{ args: string[]; durationSec: number }> {
+  const probe = await probeVideo(inputPath);
+  const w = even(Math.min(4096, opts.width ?? 1080));
+  const h = even(Math.min(4096, opts.height ?? 1920));
+  // Crop the full source height to the output's aspect ratio.
+  const cropWidth = even(Math.round((probe.height * w) / h));
+
+  let filter: string | null = null;
+  if (opts.mode !== 'blur' && cropWidth < probe.width) {
+    const path = await analyzeReframe(inputPath, probe, cropWidth, opts.sceneThreshold ?? 0.3, signal);
+    if (path) {
+      console.log(`[VideoTools] Reframe: ${path.scenes.length} scene(s), crop ${cropWidth}x${probe.height} of ${probe.width}x${probe.height}`);
+      filter = trackingCropFilter(path, join(workDir, 'reframe-commands.txt'), w, h);
+    } else {
+      console.warn('[VideoTools] Reframe: nothing to track, using blurred background');
+    }
+  }
+
+  return {
+    args: ['-y', '-i', inputPath, '-vf', filter ?? blurredBackgroundFilter(w, h), ...encodingArgs(encoding, { capFps: true }), outputPath],
+    durationSec: probe.durationSec,
+  };
 }
 
 function buildResizeFilter(w: number, h: number, fit: string): string {
@@ -41,112 +720,188 @@ function buildResizeFilter(w: number, h: number, fit: string): string {
   return `scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h}`;
 }
 
+/**
+ * Reports ffmpeg `time=` against durationSec (the output length) when both are known. Resolves
+ * with ffmpeg's stderr, which analysis passes (silencedetect, loudnorm) parse.
+ */
 function runFfmpegWithTimeout(
   args: string[],
   timeoutMs: number,
-): Promise<void> {
+  signal?: AbortSignal,
+  progress?: { durationSec: number; onProgress: ProgressCallback },
+): Promise<string> {
   return new Promise((resolve, reject) => {
-    const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'pipe', 'pipe'], signal, killSignal: 'SIGKILL' });
     let stderr = '';
 
     ffmpeg.stderr?.on('data', (d) => {
-      stderr += d.toString();
+      const chunk = d.toString();
+      stderr += chunk;
+      if (progress && progress.durationSec > 0) {
+        const seconds = parseFfmpegTime(chunk);
+        if (seconds !== null) progress.onProgress(Math.min(1, seconds / progress.durationSec));
+      }
     });
 
     const timer = setTimeout(() => {
       ffmpeg.kill('SIGKILL');
-      reject(new Error(`FFmpeg timeout after ${timeoutMs / 60000} minutes`));
+      reject(new RenderError('TIMEOUT', `FFmpeg timeout after ${timeoutMs / 60000} minutes`));
     }, timeoutMs);
 
     ffmpeg.on('close', (code) => {
       clearTimeout(timer);
-      if (code === 0) resolve();
-      else reject(new Error(`FFmpeg exited ${code}. ${stderr.slice(-500)}`));
+      if (signal?.aborted) reject(signal.reason);
+      else if (code === 0) resolve(stderr);
+      else reject(new RenderError('FFMPEG_FAILED', `FFmpeg exited ${code}`, { stderr: stderr.slice(-2000) }));
     });
 
     ffmpeg.on('error', (err) => {
       clearTimeout(timer);
-      reject(err);
+      if (!signal?.aborted) reject(err);
     });
   });
 }
 
+/** Blobs a tool downloads besides its inputs (caption file, music); held to the same size and disk checks. */
+function sidecarBlobIds({ toolType, options }: VideoToolsJobPayload): string[] {
+  if (toolType === 'video-captions') return [(options as VideoCaptionsOptions).captionBlobId];
+  const musicBlobId = toolType === 'video-audio' ? (options as VideoAudioOptions).musicBlobId : undefined;
+  return musicBlobId ? [musicBlobId] : [];
+}
+
+/** Whether the job runs an ffmpeg analysis pass (silencedetect, loudnorm measurement) before the encode. */
+function hasAnalysisPass({ toolType, options }: VideoToolsJobPayload): boolean {
+  if (toolType === 'video-jumpcut') return true;
+  if (toolType !== 'video-audio') return false;
+  const opts = options as VideoAudioOptions;
+  return opts.mode !== 'mute' && opts.normalize !== false;
+}
+
+function maxInputBytes(plan: string | undefined): number {
+  const limits = getConfig().videoTools.maxInputMbByPlan;
+  return ((plan && limits[plan]) || limits.default || 100) * MB;
+}
+
+/** Fails with DISK_FULL (retried later) unless tmpdir() has `neededBytes` free plus the configured headroom. */
+async function assertFreeSpace(dir: string, neededBytes: number): Promise<void> {
+  const fs = await statfs(dir);
+  const free = fs.bavail * fs.bsize;
+  const needed = neededBytes + getConfig().videoTools.diskHeadroomMb * MB;
+  if (free < needed) {
+    throw new RenderError('DISK_FULL', `${dir} has ${Math.round(free / MB)}MB free, job needs ${Math.round(needed / MB)}MB`);
+  }
+}
+
 export async function runVideoToolsJob(
   payload: VideoToolsJobPayload,
   storage: StorageService,
   db: DbService,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback,
 ): Promise<void> {
-  const { projectId, userId, inputBlobId, toolType, options, outputFileName } = payload;
+  const { projectId, userId, toolType, options, outputFileName, plan } = payload;
+  const inputBlobIds = MULTI_INPUT_TOOLS.has(toolType) ? payload.inputBlobIds ?? [] : [payload.inputBlobId!];
   const workDir = join(tmpdir(), `video-tools-${projectId}`);
 
+  // Sizes come from HeadObject, so oversized inputs fail before any download.
+  const checkedBlobIds = [...inputBlobIds, ...sidecarBlobIds(payload)];
+  const sizes = await Promise.all(checkedBlobIds.map((blobId) => storage.getObjectSize(blobId)));
+  const limit = maxInputBytes(plan);
+  sizes.forEach((size, i) => {
+    if (size > limit) {
+      throw new RenderError('INPUT_TOO_LARGE', `Input file ${checkedBlobIds[i]} is ${Math.round(size / MB)}MB, limit ${limit / MB}MB (plan ${plan ?? 'default'})`);
+    }
+  });
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const totalBytes = sum(sizes.slice(0, inputBlobIds.length));
+  const sidecarBytes = sum(sizes.slice(inputBlobIds.length));
+  const streaming = STREAMING_TOOLS.has(toolType) && totalBytes > getConfig().videoTools.streamAboveMb * MB;
+  // Downloaded inputs and sidecar files plus an output assumed no larger than the inputs.
+  await assertFreeSpace(tmpdir(), (streaming ? totalBytes : 2 * totalBytes) + sidecarBytes);
+
   if (!existsSync(workDir)) {
     mkdirSync(workDir, { recursive: true });
   }
 
-  const inputPath = join(workDir, 'input');
-  const outputPath = join(workDir, 'output.mp4');
+  const inputPaths = inputBlobIds.map((_, i) => join(workDir, `input-${i}`));
+  let inputPath = inputPaths[0]!;
+  const output = toolType === 'video-convert' ? CONVERT_FORMATS[(options as VideoConvertOptions).format] : MP4_OUTPUT;
+  const outputPath = join(workDir, `output.${output.ext}`);
 
   try {
-    await storage.downloadToFile(inputBlobId, inputPath);
-
-    const stat = statSync(inputPath);
-    if (stat.size > MAX_VIDEO_SIZE_BYTES) {
-      throw new Error('Input file exceeds 100MB limit');
+    if (streaming) {
+      inputPath = await storage.getSignedUrl(inputBlobIds[0]!, STREAM_URL_EXPIRES_SEC);
+      console.log(`[VideoTools] Streaming ${Math.round(totalBytes / MB)}MB input for project ${projectId} from a signed URL`);
+    } else {
+      for (const [i, blobId] of inputBlobIds.entries()) {
+        await storage.downloadToFile(blobId, inputPaths[i]!, signal);
+      }
     }
+    const inputArgs = [...(streaming ? HTTP_INPUT_FLAGS : []), '-i', inputPath];
 
+    const encoding = resolveEncoding(payload.encoding, plan, 'VideoTools');
+    // Tools with an analysis pass report it as the first half of the job and the encode as the second.
+    const analysisProgress = onProgress && ((f: number) => onProgress(f / 2));
+    const encodeProgress = hasAnalysisPass(payload) ? onProgress && ((f: number) => onProgress(0.5 + f / 2)) : onProgress;
     let args: string[];
+    // Output length for progress; resize/compress probe it below only when progress is reported.
+    let durationSec: number | undefined;
 
-    if (toolType === 'video-resize') {
+    if (toolType === 'video-trim') {
+      ({ args, durationSec } = await buildTrimArgs(inputPath, outputPath, options as VideoTrimOptions, encoding));
+    } else if (toolType === 'video-concat') {
+      ({ args, durationSec } = await buildConcatArgs(inputPaths, outputPath, options as VideoConcatOptions, encoding));
+    } else if (toolType === 'video-captions') {
+      ({ args, durationSec } = await buildCaptionsArgs(inputPath, workDir, outputPath, options as VideoCaptionsOptions, encoding, storage, signal));
+    } else if (toolType === 'video-reframe') {
+      ({ args, durationSec } = await buildReframeArgs(inputPath, workDir, outputPath, options as VideoReframeOptions, encoding, signal));
+    } else if (toolType === 'video-jumpcut') {
+      ({ args, durationSec } = await buildJumpcutArgs(inputPath, outputPath, options as VideoJumpcutOptions, encoding, db, projectId, signal, analysisProgress));
+    } else if (toolType === 'video-audio') {
+      ({ args, durationSec } = await buildAudioArgs(inputPath, workDir, outputPath, options as VideoAudioOptions, encoding, storage, db, projectId, signal, analysisProgress));
+    } else if (toolType === 'video-convert') {
+      ({ args, durationSec } = await buildConvertArgs(inputPath, outputPath, options as VideoConvertOptions));
+    } else if (toolType === 'video-resize') {
       const opts = options as VideoResizeOptions;
       const w = Math.max(1, Math.min(4096, opts.width));
       const h = Math.max(1, Math.min(4096, opts.height));
       const vf = buildResizeFilter(w, h, opts.fit || 'contain');
       args = [
         '-y',
-        '-i', inputPath,
+        ...inputArgs,
         '-vf', vf,
-        '-c:v', 'libx264',
-        '-preset', 'fast',
-        '-crf', '23',
-        '-c:a', 'aac',
-        '-movflags', '+faststart',
+        ...encodingArgs(encoding, { capFps: true }),
         outputPath,
       ];
     } else {
       const opts = options as VideoCompressOptions;
       const w = opts.width && opts.height ? Math.max(1, Math.min(4096, opts.width)) : 0;
       const h = opts.width && opts.height ? Math.max(1, Math.min(4096, opts.height)) : 0;
-      const crf = Math.max(18, Math.min(28, opts.crf ?? 23));
+      // An explicit crf overrides the profile's.
+      const crf = opts.crf === undefined ? undefined : Math.max(18, Math.min(28, opts.crf));
       const scaleFilter = w && h
         ? `scale=${w}:${h}:force_original_aspect_ratio=decrease`
         : 'copy';
       args = [
         '-y',
-        '-i', inputPath,
+        ...inputArgs,
         ...(scaleFilter !== 'copy' ? ['-vf', scaleFilter] : []),
-        '-c:v', 'libx264',
-        '-preset', 'fast',
-        '-crf', String(crf),
-        '-c:a', 'aac',
-        '-movflags', '+faststart',
+        ...encodingArgs(encoding, { crf, capFps: true }),
         outputPath,
       ];
     }
 
-    await runFfmpegWithTimeout(args, FFMPEG_TIMEOUT_MS);
+    // ffprobe format duration works for video too; 0 (unknown) just disables progress.
+    durationSec ??= encodeProgress ? await getAudioDurationSec(inputPath) : 0;
+    await runFfmpegWithTimeout(args, FFMPEG_TIMEOUT_MS, signal, encodeProgress && { durationSec, onProgress: encodeProgress });
+    signal?.throwIfAborted();
 
-    const resultBlobId = `users/${userId}/media/${projectId}/video/${outputFileName}`;
+    const fileName = toolType === 'video-convert' ? withExtension(outputFileName, output.ext) : outputFileName;
+    const resultBlobId = `users/${userId}/media/${projectId}/video/${fileName}`;
     const stream = createReadStream(outputPath);
-    await storage.upload(resultBlobId, stream, 'video/mp4');
+    await storage.upload(resultBlobId, stream, output.contentType);
 
-    const updated = await db.finalizeProjectOnlyIfNotCompleted(projectId, resultBlobId);
-    if (!updated) {
-      console.log(`[VideoTools] Project ${projectId} already finalized (idempotent)`);
-    }
-  } catch (error: any) {
-    const msg = error?.message ?? String(error);
-    await db.updateProjectStatus(projectId, 'failed', msg);
-    throw error;
+    await finalizeProjectSuccess({ projectId, resultBlobId, db, storage });
   } finally {
     try {
       if (existsSync(workDir)) {
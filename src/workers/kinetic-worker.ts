@@ -0,0 +1,48 @@
+import type { Job } from 'bullmq';
+import { runKineticRemotionRender } from '../remotion-kinetic-render.js';
+import type { KineticJobPayload } from '../remotion-kinetic-render.js';
+import { priceProjectJob, reserveJobCredits } from '../credits.js';
+import { createProgressReporter } from '../progress.js';
+import { requeueInterrupted } from '../shutdown.js';
+import { markCancelled, markFailed, remotionRendererCheck } from './shared.js';
+import type { QueueWorkerDefinition, WorkerContext } from './types.js';
+
+async function processKineticJob(job: Job<KineticJobPayload>, token: string | undefined, ctx: WorkerContext) {
+    const { storage, db, mailer, cancellations, shutdown } = ctx;
+    const { projectId, userId } = job.data;
+    console.log(`[Kinetic] 🚀 Starting job ${job.id} for project ${projectId} (User: ${userId})`);
+    const cancellation = cancellations.watch('project', projectId, shutdown.signal);
+    try {
+        await reserveJobCredits(db, 'Kinetic', await priceProjectJob(db, 'kinetic-typography', projectId, userId));
+        await runKineticRemotionRender({
+            payload: job.data,
+            storage,
+            db,
+            mailer,
+            signal: cancellation.signal,
+            onProgress: createProgressReporter(job, db, { projectId }),
+        });
+        console.log(`[Kinetic] ✨ Job ${job.id} completed successfully!`);
+    } catch (error: unknown) {
+        if (cancellation.cancelled) {
+            return markCancelled(db, 'Kinetic', job.id, { projectId });
+        }
+        if (shutdown.interrupted) {
+            return requeueInterrupted('Kinetic', job, token);
+        }
+        throw await markFailed(db, 'Kinetic', job, { projectId }, error);
+    } finally {
+        cancellation.dispose();
+    }
+}
+
+/** Kinetic typography / graphic motion projects on Remotion. */
+export const kineticWorker: QueueWorkerDefinition<KineticJobPayload> = {
+    queue: 'remotion-kinetic-typography-tasks',
+    tag: 'Kinetic',
+    role: 'remotion',
+    target: 'project',
+    concurrency: (config) => config.workers.concurrency.kinetic,
+    prerequisites: () => [remotionRendererCheck()],
+    process: processKineticJob,
+};
@@ -0,0 +1,126 @@
+import { Worker } from 'bullmq';
+import { runDependencyChecks } from '../dependency-checks.js';
+import type { DependencyCheck } from '../dependency-checks.js';
+import { getConfig } from '../config.js';
+import { InvalidPayloadError, payloadIssues } from '../payload-schema.js';
+import { renderBackoff } from '../render-errors.js';
+import { markFailed } from './shared.js';
+import { renderWorker } from './render-worker.js';
+import { remotionWorker } from './remotion-worker.js';
+import { kineticWorker } from './kinetic-worker.js';
+import { videoToolsWorker } from './video-tools-worker.js';
+import { stockVideoWorker } from './stock-video-worker.js';
+import type { QueueWorkerDefinition, WorkerContext, WorkerRole } from './types.js';
+
+/** Every queue this worker knows how to consume. Add new queue modules here. */
+export const WORKER_DEFINITIONS: QueueWorkerDefinition[] = [
+    renderWorker,
+    remotionWorker,
+    kineticWorker,
+    videoToolsWorker,
+    stockVideoWorker,
+];
+
+const ROLES: WorkerRole[] = ['ffmpeg', 'remotion'];
+
+/** Value of `--queues a,b` or `--queues=a,b`, if present. */
+function queuesFlag(argv: string[]): string | undefined {
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!;
+        if (arg.startsWith('--queues=')) return arg.slice('--queues='.length);
+        if (arg === '--queues') return argv[i + 1] ?? '';
+    }
+    return undefined;
+}
+
+/**
+ * Queues to start: the `--queues` flag wins over WORKER_QUEUES; default is all.
+ * Entries are queue names, roles (`ffmpeg`, `remotion`) or `all`, comma-separated.
+ */
+export function selectWorkers(argv: string[] = process.argv.slice(2), queues: string = getConfig().workers.queues): QueueWorkerDefinition[] {
+    const raw = queuesFlag(argv) ?? queues;
+    const entries = raw.split(',').map((e) => e.trim()).filter(Boolean);
+    if (entries.length === 0) {
+        throw new Error('No queues selected (empty --queues / WORKER_QUEUES)');
+    }
+
+    const selected = new Set<QueueWorkerDefinition>();
+    for (const entry of entries) {
+        if (entry === 'all') {
+            WORKER_DEFINITIONS.forEach((d) => selected.add(d));
+        } else if ((ROLES as string[]).includes(entry)) {
+            WORKER_DEFINITIONS.filter((d) => d.role === entry).forEach((d) => selected.add(d));
+        } else {
+            const def = WORKER_DEFINITIONS.find((d) => d.queue === entry);
+            if (!def) {
+                throw new Error(
+                    `Unknown queue or role "${entry}". Expected one of: all, ${ROLES.join(', ')}, ${WORKER_DEFINITIONS.map((d) => d.queue).join(', ')}`,
+                );
+            }
+            selected.add(def);
+        }
+    }
+    return WORKER_DEFINITIONS.filter((d) => selected.has(d));
+}
+
+/** Prerequisites of the selected queues, deduplicated by name (required wins over optional). */
+export function prerequisitesFor(definitions: QueueWorkerDefinition[]): DependencyCheck[] {
+    const byName = new Map<string, DependencyCheck>();
+    for (const check of definitions.flatMap((d) => d.prerequisites(getConfig()))) {
+        const existing = byName.get(check.name);
+        if (!existing || (existing.optional && !check.optional)) byName.set(check.name, check);
+    }
+    return [...byName.values()];
+}
+
+/** Logs every failed prerequisite; returns false if a required one is missing. */
+export async function validatePrerequisites(definitions: QueueWorkerDefinition[]): Promise<boolean> {
+    const results = await runDependencyChecks(prerequisitesFor(definitions));
+    let ok = true;
+    for (const { name, optional, error } of results) {
+        if (!error) continue;
+        const needed = definitions
+            .filter((d) => d.prerequisites(getConfig()).some((c) => c.name === name))
+            .map((d) => d.queue)
+            .join(', ');
+        if (optional) {
+            console.warn(`[Registry] ⚠️ Optional prerequisite ${name} unavailable (${needed}): ${error}`);
+        } else {
+            console.error(`[Registry] ❌ Prerequisite ${name} failed (${needed}): ${error}`);
+            ok = false;
+        }
+    }
+    return ok;
+}
+
+export function startWorker(definition: QueueWorkerDefinition, ctx: WorkerContext): Worker {
+    const { queue, tag, target, concurrency, process: processJob } = definition;
+    const config = getConfig();
+    const worker = new Worker(queue, async (job, token) => {
+        const issues = payloadIssues(queue, job.data);
+        if (issues.length > 0) {
+            await job.log(issues.join('\n'));
+            // The id may itself be what is missing; then only the BullMQ job records the failure.
+            const id: unknown = job.data?.[target === 'step' ? 'stepId' : 'projectId'];
+            const row = typeof id !== 'string' || !id ? undefined : target === 'step' ? { stepId: id } : { projectId: id };
+            throw await markFailed(ctx.db, tag, job, row, new InvalidPayloadError(queue, issues));
+        }
+        return processJob(job, token, ctx);
+    }, {
+        connection: {
+            url: config.redis.url,
+        },
+        concurrency: concurrency(config),
+        // Used by jobs enqueued with `backoff: { type: RENDER_BACKOFF_TYPE }`.
+        settings: { backoffStrategy: renderBackoff },
+    });
+
+    worker.on('ready', () => {
+        console.log(`[${tag}] Worker ready for ${queue}`);
+    });
+
+    worker.on('failed', (job, err) => {
+        console.error(`[Queue] ${queue} job ${job?.id} failed globally: ${err.message}`);
+    });
+    return worker;
+}
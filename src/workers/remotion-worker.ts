@@ -0,0 +1,92 @@
+import type { Job } from 'bullmq';
+import { runRemotionRender } from '../remotion-render.js';
+import type { RemotionJobPayload } from '../remotion-render.js';
+import { runRemotionFfmpegFallback } from '../remotion-ffmpeg-fallback.js';
+import { LambdaUnavailableError } from '../remotion-renderer.js';
+import { binaryCheck } from '../dependency-checks.js';
+import { priceMediaJob, reserveJobCredits } from '../credits.js';
+import { createProgressReporter } from '../progress.js';
+import { requeueInterrupted } from '../shutdown.js';
+import { ffmpegPrerequisites, markCancelled, markFailed, remotionRendererCheck } from './shared.js';
+import type { QueueWorkerDefinition, WorkerContext } from './types.js';
+import { getConfig } from '../config.js';
+
+/** Which renderer produced the final output; stored as the BullMQ job return value. */
+type RenderedBy = 'remotion-lambda' | 'ffmpeg-fallback';
+
+type RemotionJobResult = { resultBlobId: string; renderer: RenderedBy } | { cancelled: true };
+
+async function processRemotionJob(
+    job: Job<RemotionJobPayload>,
+    token: string | undefined,
+    ctx: WorkerContext,
+): Promise<RemotionJobResult> {
+    const { storage, db, processor, mailer, cancellations, shutdown } = ctx;
+    const { mediaId, stepId, userId } = job.data;
+    console.log(`[Remotion] 🚀 Starting job ${job.id} for media ${mediaId} (User: ${userId})`);
+    const cancellation = cancellations.watch('media', mediaId, shutdown.signal);
+    const onProgress = createProgressReporter(job, db, { stepId });
+    try {
+        await reserveJobCredits(db, 'Remotion', await priceMediaJob(db, 'media', mediaId, userId, job.data.outputs?.length || 1));
+        let resultBlobId: string;
+        let renderer: RenderedBy = 'remotion-lambda';
+        try {
+            resultBlobId = await runRemotionRender({
+                payload: job.data,
+                storage,
+                db,
+                mailer,
+                signal: cancellation.signal,
+                onProgress,
+            });
+        } catch (lambdaErr: unknown) {
+            // Local FFmpeg fallback when Lambda is unavailable; disable with REMOTION_FFMPEG_FALLBACK=false.
+            if (!(lambdaErr instanceof LambdaUnavailableError) || !getConfig().remotion.ffmpegFallback || cancellation.cancelled) {
+                throw lambdaErr;
+            }
+            console.warn(`[Remotion] ⚠️ Lambda unavailable for job ${job.id} (${lambdaErr.reason}): ${lambdaErr.message}. Falling back to local FFmpeg...`);
+            await job.log(`Lambda unavailable (${lambdaErr.reason}): ${lambdaErr.message}; rendering with local FFmpeg`);
+            resultBlobId = await runRemotionFfmpegFallback({
+                payload: job.data,
+                storage,
+                db,
+                mailer,
+                processor,
+                jobId: job.id,
+                signal: cancellation.signal,
+                onProgress,
+            });
+            renderer = 'ffmpeg-fallback';
+        }
+        console.log(`[Remotion] ✨ Job ${job.id} completed successfully (renderer: ${renderer})!`);
+        return { resultBlobId, renderer };
+    } catch (error: unknown) {
+        if (cancellation.cancelled) {
+            return markCancelled(db, 'Remotion', job.id, { stepId, mediaId });
+        }
+        if (shutdown.interrupted) {
+            return requeueInterrupted('Remotion', job, token);
+        }
+        throw await markFailed(db, 'Remotion', job, { stepId, mediaId }, error);
+    } finally {
+        cancellation.dispose();
+    }
+}
+
+/** 30–60s reels on Remotion (Lambda or local), with the FFmpeg fallback. */
+export const remotionWorker: QueueWorkerDefinition<RemotionJobPayload, RemotionJobResult> = {
+    queue: 'remotion-render-tasks',
+    tag: 'Remotion',
+    role: 'remotion',
+    target: 'step',
+    concurrency: (config) => config.workers.concurrency.remotion,
+    prerequisites: (config) => [
+        // With the fallback on, an unconfigured renderer is survivable as long as FFmpeg is installed.
+        remotionRendererCheck(config.remotion.ffmpegFallback),
+        // Without the fallback, FFmpeg is only needed for `hls` packaging, which is skipped when it fails.
+        ...(config.remotion.ffmpegFallback ? ffmpegPrerequisites() : [binaryCheck('ffprobe'), binaryCheck('ffmpeg', ['-version'], true)]),
+        // Beat sync falls back to a duration-based grid without aubio.
+        binaryCheck('aubio', ['--help'], true),
+    ],
+    process: processRemotionJob,
+};
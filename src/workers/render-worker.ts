@@ -0,0 +1,145 @@
+import { join } from 'path';
+import { mkdirSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import type { Job } from 'bullmq';
+import { priceMediaJob, reserveJobCredits } from '../credits.js';
+import { finalizeRenderSuccess } from '../finalize.js';
+import { packageMediaHls } from '../hls.js';
+import { logMemory } from '../memory.js';
+import { renderFfmpegVariants, resolveOutputs } from '../outputs.js';
+import type { OutputSpec } from '../outputs.js';
+import { resolveEncoding } from '../encoding-profiles.js';
+import type { EncodingSelection } from '../encoding-profiles.js';
+import { createProgressReporter } from '../progress.js';
+import { requeueInterrupted } from '../shutdown.js';
+import { ffmpegPrerequisites, markCancelled, markFailed } from './shared.js';
+import type { RenderingHints } from '../processor.js';
+import type { QueueWorkerDefinition, WorkerContext } from './types.js';
+
+export interface RenderJobPayload {
+    mediaId: string;
+    stepId: string;
+    userId: string;
+    assets: {
+        audio: string;
+        caption: string;
+        images: string[];
+        music?: string;
+    };
+    options: {
+        preset: string;
+        rendering_hints?: RenderingHints;
+    };
+    /** Sizes to render (e.g. 9:16, 1:1, 16:9), primary first; default: the one rendering_hints size. */
+    outputs?: OutputSpec[];
+    /** Encoding profile and codec; capped by `plan` (see encoding-profiles.ts). */
+    encoding?: EncodingSelection;
+    /** Billing plan from the backend. */
+    plan?: string;
+    /** Also package the primary output as an HLS ladder (see hls.ts) and record its master playlist. */
+    hls?: boolean;
+    monetization?: { watermark: { enabled: boolean; type: 'text' | 'image'; value?: string } };
+}
+
+async function processRenderJob(job: Job<RenderJobPayload>, token: string | undefined, ctx: WorkerContext) {
+    const { storage, db, processor, mailer, cancellations, shutdown } = ctx;
+    const { mediaId, stepId, userId, assets, options, outputs } = job.data;
+    const workDir = join(tmpdir(), `render-${job.id}`);
+
+    console.log(`[Worker] 🚀 Starting job ${job.id} for media ${mediaId} (User: ${userId})`);
+    logMemory('Job Start');
+    const cancellation = cancellations.watch('media', mediaId, shutdown.signal);
+    const { signal } = cancellation;
+    const onProgress = createProgressReporter(job, db, { stepId });
+
+    try {
+        await reserveJobCredits(db, 'Worker', await priceMediaJob(db, 'media', mediaId, userId, outputs?.length || 1));
+
+        if (!existsSync(workDir)) {
+            mkdirSync(workDir, { recursive: true });
+        }
+
+        // 1. Download Assets
+        console.log(`[Worker] [${job.id}] 📥 Downloading assets to ${workDir}...`);
+        const audioPath = join(workDir, 'audio.mp3');
+        const captionExt = assets.caption.endsWith('.ass') ? 'ass' : assets.caption.endsWith('.json') ? 'json' : 'srt';
+        const captionPath = join(workDir, `captions.${captionExt}`);
+        const imagePaths = assets.images.map((_, i) => join(workDir, `image_${i}.jpg`));
+        const musicPath = assets.music ? join(workDir, 'music.mp3') : undefined;
+
+        await Promise.all([
+            storage.downloadToFile(assets.audio, audioPath, signal),
+            storage.downloadToFile(assets.caption, captionPath, signal),
+            ...assets.images.map((id, i) => storage.downloadToFile(id, imagePaths[i]!, signal)),
+            ...(assets.music && musicPath ? [storage.downloadToFile(assets.music, musicPath, signal)] : [])
+        ]);
+        console.log(`[Worker] [${job.id}] ✅ Assets downloaded.`);
+        logMemory('Post-Download');
+
+        // 2 & 3. Process and upload each output size
+        console.log(`[Worker] [${job.id}] 🎬 Processing video with FFmpeg (preset: ${options.preset})...`);
+        const variants = resolveOutputs(outputs, options.rendering_hints, userId, mediaId);
+        const outputPaths = await renderFfmpegVariants(processor, storage, variants, workDir, {
+            assetPaths: imagePaths,
+            audioPath,
+            captionPath,
+            preset: options.preset,
+            rendering_hints: options.rendering_hints,
+            musicPath,
+            musicVolume: typeof options.rendering_hints?.musicVolume === 'number' ? options.rendering_hints.musicVolume : undefined,
+            watermark: job.data.monetization?.watermark,
+            encoding: resolveEncoding(job.data.encoding, job.data.plan, 'Worker'),
+            signal,
+            onProgress,
+        }, 'Worker');
+        console.log(`[Worker] [${job.id}] ✅ Video processed and uploaded.`);
+        logMemory('Post-Process');
+        const hlsPlaylistKey = job.data.hls
+            ? await packageMediaHls({ storage, input: outputPaths[0]!, userId, mediaId, signal, logTag: 'Worker' })
+            : undefined;
+
+        // 4 & 5. Idempotent finalization (step, media, credits, email)
+        console.log(`[Worker] [${job.id}] 💾 Finalizing (idempotent)...`);
+        await finalizeRenderSuccess({
+            mediaId,
+            stepId,
+            resultBlobId: variants[0]!.blobId,
+            variants: outputs ? variants : undefined,
+            hlsPlaylistKey,
+            db,
+            mailer,
+            storage: { getSignedUrl: (id, exp) => storage.getSignedUrl(id, exp) },
+        });
+
+        console.log(`[Worker] ✨ Job ${job.id} completed successfully!`);
+    } catch (error: any) {
+        if (cancellation.cancelled) {
+            return markCancelled(db, 'Worker', job.id, { stepId, mediaId });
+        }
+        if (shutdown.interrupted) {
+            return requeueInterrupted('Worker', job, token);
+        }
+        throw await markFailed(db, 'Worker', job, { stepId, mediaId }, error);
+    } finally {
+        cancellation.dispose();
+        try {
+            if (existsSync(workDir)) {
+                rmSync(workDir, { recursive: true, force: true });
+            }
+        } catch (cleanupErr) {
+            console.error(`[Worker] ⚠️ Cleanup failed for ${workDir}:`, cleanupErr);
+        }
+        logMemory('Job Cleanup');
+    }
+}
+
+/** Slideshow reels (60–120s) rendered in-process with FFmpeg. */
+export const renderWorker: QueueWorkerDefinition<RenderJobPayload> = {
+    queue: 'render-tasks',
+    tag: 'Worker',
+    role: 'ffmpeg',
+    target: 'step',
+    concurrency: (config) => config.workers.concurrency.render,
+    prerequisites: ffmpegPrerequisites,
+    process: processRenderJob,
+};
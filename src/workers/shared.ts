@@ -0,0 +1,97 @@
+import type { Job } from 'bullmq';
+import type { DbService } from '../db.js';
+import { binaryCheck } from '../dependency-checks.js';
+import type { DependencyCheck } from '../dependency-checks.js';
+import { createRemotionRenderer } from '../remotion-renderer.js';
+import { classifyError, toJobError } from '../render-errors.js';
+import { recordFailedAttempt } from '../dead-letter.js';
+
+/** The row a job's status is tracked on; `mediaId` (step jobs) keys the credit hold like `projectId` does. */
+export type JobRow = { stepId: string; mediaId?: string } | { projectId: string };
+
+const holdReference = (row: JobRow): string | undefined => ('stepId' in row ? row.mediaId : row.projectId);
+
+async function releaseHold(db: DbService, tag: string, row: JobRow): Promise<void> {
+    const referenceId = holdReference(row);
+    if (!referenceId) return;
+    try {
+        if (await db.releaseCredits(referenceId)) console.log(`[${tag}] 💳 Released credit hold for ${referenceId}`);
+    } catch (dbErr) {
+        console.error(`[${tag}] Failed to release credit hold for ${referenceId}:`, dbErr);
+    }
+}
+
+/**
+ * A cancelled job completes (no retries) with its step or project marked `cancelled`.
+ * Finalize never ran, so the credit hold is released rather than settled.
+ */
+export async function markCancelled(
+    db: DbService,
+    tag: string,
+    jobId: string | undefined,
+    target: JobRow,
+): Promise<{ cancelled: true }> {
+    console.warn(`[${tag}] 🛑 Job ${jobId} cancelled`);
+    try {
+        if ('stepId' in target) {
+            await db.updateStepStatusOnlyIfProcessing(target.stepId, 'cancelled');
+        } else {
+            await db.updateProjectStatus(target.projectId, 'cancelled');
+        }
+    } catch (dbErr) {
+        console.error(`[${tag}] Failed to mark job ${jobId} cancelled:`, dbErr);
+    }
+    await releaseHold(db, tag, target);
+    return { cancelled: true };
+}
+
+/**
+ * Classifies a failure (see render-errors.ts) and returns the error the processor should throw.
+ * The step or project is marked `failed` with the code and user-facing message only when BullMQ
+ * will not retry: a permanent code or the last attempt, which also releases the credit hold.
+ * Retried jobs stay `processing` and keep their hold.
+ */
+export async function markFailed(
+    db: DbService,
+    tag: string,
+    job: Job,
+    target: JobRow | undefined,
+    error: unknown,
+): Promise<Error> {
+    const failure = classifyError(error);
+    const finalAttempt = !failure.retryable || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    console.error(`[${tag}] ❌ Job ${job.id} failed (${failure.retryable && !finalAttempt ? 'will retry' : 'final'}):`, failure.message);
+    if (failure.stderr) console.error(`[${tag}] 📄 ffmpeg stderr tail:\n${failure.stderr}`);
+    if (failure.code === 'INTERNAL' && failure.cause instanceof Error) console.error(failure.cause.stack);
+    try {
+        await recordFailedAttempt(job, failure);
+    } catch (logErr) {
+        console.error(`[${tag}] Failed to log attempt for job ${job.id}:`, logErr);
+    }
+    if (finalAttempt && target) {
+        try {
+            if ('stepId' in target) {
+                await db.updateStepStatus(target.stepId, 'failed', undefined, failure.userMessage, failure.code);
+            } else {
+                await db.updateProjectStatus(target.projectId, 'failed', failure.userMessage, failure.code);
+            }
+        } catch (dbErr) {
+            console.error(`[${tag}] 💀 Critical: Failed to mark job ${job.id} failed in DB:`, dbErr);
+        }
+        await releaseHold(db, tag, target);
+    }
+    return toJobError(failure);
+}
+
+export const ffmpegPrerequisites = (): DependencyCheck[] => [binaryCheck('ffmpeg'), binaryCheck('ffprobe')];
+
+/** The backend selected by REMOTION_RENDERER has its serve URL / Lambda function configured. */
+export function remotionRendererCheck(optional?: boolean): DependencyCheck {
+    return {
+        name: 'remotion-renderer',
+        optional,
+        check: async () => {
+            createRemotionRenderer().assertConfigured();
+        },
+    };
+}
@@ -0,0 +1,54 @@
+import type { Job } from 'bullmq';
+import { runStockVideoRemotionRender } from '../remotion-stock-video-render.js';
+import type { StockVideoJobPayload } from '../remotion-stock-video-render.js';
+import { priceMediaJob, reserveJobCredits } from '../credits.js';
+import { createProgressReporter } from '../progress.js';
+import { requeueInterrupted } from '../shutdown.js';
+import { binaryCheck } from '../dependency-checks.js';
+import { markCancelled, markFailed, remotionRendererCheck } from './shared.js';
+import type { QueueWorkerDefinition, WorkerContext } from './types.js';
+
+async function processStockVideoJob(job: Job<StockVideoJobPayload>, token: string | undefined, ctx: WorkerContext) {
+    const { storage, db, mailer, cancellations, shutdown } = ctx;
+    const { mediaId, stepId, userId } = job.data;
+    console.log(`[StockVideo] 🚀 Starting job ${job.id} for media ${mediaId}`);
+    const cancellation = cancellations.watch('media', mediaId, shutdown.signal);
+    try {
+        await reserveJobCredits(db, 'StockVideo', await priceMediaJob(db, 'stock-video', mediaId, userId, job.data.outputs?.length || 1));
+        await runStockVideoRemotionRender({
+            payload: job.data,
+            storage,
+            db,
+            mailer,
+            signal: cancellation.signal,
+            onProgress: createProgressReporter(job, db, { stepId }),
+        });
+        console.log(`[StockVideo] ✨ Job ${job.id} completed successfully!`);
+    } catch (error: unknown) {
+        if (cancellation.cancelled) {
+            return markCancelled(db, 'StockVideo', job.id, { stepId, mediaId });
+        }
+        if (shutdown.interrupted) {
+            return requeueInterrupted('StockVideo', job, token);
+        }
+        throw await markFailed(db, 'StockVideo', job, { stepId, mediaId }, error);
+    } finally {
+        cancellation.dispose();
+    }
+}
+
+/** Stock-footage reels on Remotion. */
+export const stockVideoWorker: QueueWorkerDefinition<StockVideoJobPayload> = {
+    queue: 'stock-video-render-tasks',
+    tag: 'StockVideo',
+    role: 'remotion',
+    target: 'step',
+    concurrency: (config) => config.workers.concurrency.stockVideo,
+    prerequisites: () => [
+        remotionRendererCheck(),
+        // `hls` packaging; without them it is skipped and the MP4 is delivered alone.
+        binaryCheck('ffmpeg', ['-version'], true),
+        binaryCheck('ffprobe', ['-version'], true),
+    ],
+    process: processStockVideoJob,
+};
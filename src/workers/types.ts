@@ -0,0 +1,41 @@
+import type { Job } from 'bullmq';
+import type { StorageService } from '../storage.js';
+import type { DbService } from '../db.js';
+import type { VideoProcessor } from '../processor.js';
+import type { MailService } from '../mail.js';
+import type { CancellationService } from '../cancellation.js';
+import type { ShutdownCoordinator } from '../shutdown.js';
+import type { DependencyCheck } from '../dependency-checks.js';
+import type { AppConfig } from '../config.js';
+
+/** Process-wide services shared by every queue processor. */
+export interface WorkerContext {
+    storage: StorageService;
+    db: DbService;
+    processor: VideoProcessor;
+    mailer: MailService;
+    cancellations: CancellationService;
+    shutdown: ShutdownCoordinator;
+}
+
+/** Which machines a queue belongs on: FFmpeg-heavy VMs or lightweight Remotion (Lambda) orchestrators. */
+export type WorkerRole = 'ffmpeg' | 'remotion';
+
+export type JobTarget = 'step' | 'project';
+
+/**
+ * One BullMQ queue this process can consume; registered in workers/registry.ts. `process` is a
+ * method so definitions with concrete payload types fit in `QueueWorkerDefinition[]`.
+ */
+export interface QueueWorkerDefinition<T = unknown, R = unknown> {
+    queue: string;
+    /** Log prefix, e.g. `Kinetic` for `[Kinetic]`. */
+    tag: string;
+    role: WorkerRole;
+    /** Row whose status tracks the job: `media_steps` (payload `stepId`) or `projects` (payload `projectId`). */
+    target: JobTarget;
+    concurrency: (config: AppConfig) => number;
+    /** Binaries/config the processor needs; validated before the worker starts and reported by /readyz. */
+    prerequisites: (config: AppConfig) => DependencyCheck[];
+    process(job: Job<T>, token: string | undefined, ctx: WorkerContext): Promise<R>;
+}
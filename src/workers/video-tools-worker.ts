@@ -0,0 +1,41 @@
+import type { Job } from 'bullmq';
+import { runVideoToolsJob } from '../video-tools-processor.js';
+import type { VideoToolsJobPayload } from '../video-tools-processor.js';
+import { priceProjectJob, reserveJobCredits } from '../credits.js';
+import { createProgressReporter } from '../progress.js';
+import { requeueInterrupted } from '../shutdown.js';
+import { ffmpegPrerequisites, markCancelled, markFailed } from './shared.js';
+import type { QueueWorkerDefinition, WorkerContext } from './types.js';
+
+async function processVideoToolsJob(job: Job<VideoToolsJobPayload>, token: string | undefined, ctx: WorkerContext) {
+    const { storage, db, cancellations, shutdown } = ctx;
+    const { projectId, userId, toolType } = job.data;
+    console.log(`[VideoTools] 🚀 Starting job ${job.id} for project ${projectId} (${toolType}, User: ${userId})`);
+    const cancellation = cancellations.watch('project', projectId, shutdown.signal);
+    try {
+        await reserveJobCredits(db, 'VideoTools', await priceProjectJob(db, 'video-tools', projectId, userId, toolType));
+        await runVideoToolsJob(job.data, storage, db, cancellation.signal, createProgressReporter(job, db, { projectId }));
+        console.log(`[VideoTools] ✨ Job ${job.id} completed successfully!`);
+    } catch (error: unknown) {
+        if (cancellation.cancelled) {
+            return markCancelled(db, 'VideoTools', job.id, { projectId });
+        }
+        if (shutdown.interrupted) {
+            return requeueInterrupted('VideoTools', job, token);
+        }
+        throw await markFailed(db, 'VideoTools', job, { projectId }, error);
+    } finally {
+        cancellation.dispose();
+    }
+}
+
+/** User video tools (resize, compress, trim, concat, convert, captions, reframe, jumpcut, audio) run with FFmpeg. */
+export const videoToolsWorker: QueueWorkerDefinition<VideoToolsJobPayload> = {
+    queue: 'video-tools-tasks',
+    tag: 'VideoTools',
+    role: 'ffmpeg',
+    target: 'project',
+    concurrency: (config) => config.workers.concurrency.videoTools,
+    prerequisites: ffmpegPrerequisites,
+    process: processVideoToolsJob,
+};